@@ -108,9 +108,24 @@ if [ "$SKIP_FUNCTIONS" = false ]; then
         "sync-instagram"
         "sync-tiktok"
         "ai-generate-tags"
+        "job-worker"
+        "get-job-status"
+        "get-content-history"
+        "get-content-metrics"
+        "disconnect-social-account"
+        "stripe-webhook"
+        "create-checkout-session"
+        "create-billing-portal-session"
+        "list-plans"
+        "get-usage"
+        "list-ai-suggestions"
+        "apply-ai-suggestion"
+        "classify-content"
+        "submit-to-search-engines"
         "search-creators"
         "search-content"
         "get-trending"
+        "get-trending-keywords"
         "get-creator-by-slug"
         "track-click"
         "browse-creators"
@@ -120,6 +135,8 @@ if [ "$SKIP_FUNCTIONS" = false ]; then
         "get-seo-metadata"
         "sitemap"
         "robots"
+        "indexnow-key"
+        "prerender"
     )
     
     DEPLOYED=0
@@ -177,6 +194,21 @@ echo "    - TIKTOK_REDIRECT_URI"
 echo ""
 echo "  AI:"
 echo "    - OPENAI_API_KEY"
+echo "    - ANTHROPIC_API_KEY (optional)"
+echo "    - AI_PROVIDER_OVERRIDE=mock (local/CI only)"
+echo ""
+echo "  SEO:"
+echo "    - INDEXNOW_KEY (site key served by indexnow-key)"
+echo "    - INDEXNOW_KEY_LOCATION (optional)"
+echo ""
+echo "  SEO (local stub servers only):"
+echo "    - INDEXNOW_ENDPOINT"
+echo "    - GOOGLE_INDEXING_ENDPOINT"
+echo "    - GOOGLE_TOKEN_URL"
+echo ""
+echo "  Billing:"
+echo "    - STRIPE_SECRET_KEY"
+echo "    - STRIPE_WEBHOOK_SECRET"
 echo ""
 echo "  App:"
 echo "    - APP_BASE_URL (e.g., https://streamvibe.com)"
@@ -0,0 +1,58 @@
+import type { AIProvider } from './types.ts'
+
+export const anthropicProvider: AIProvider = {
+  slug: 'anthropic',
+  displayName: 'Anthropic',
+
+  async complete(request) {
+    const apiKey = Deno.env.get('ANTHROPIC_API_KEY')
+    if (!apiKey) {
+      throw new Error('Anthropic API key not configured')
+    }
+
+    // System prompts are a top-level field in the Messages API
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n')
+    const messages = request.messages.filter((message) => message.role !== 'system')
+
+    // No JSON mode: prefilling the reply with "{" keeps the model on a JSON object
+    if (request.json) {
+      messages.push({ role: 'assistant', content: '{' })
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 1000,
+      }),
+    })
+
+    if (!response.ok) {
+      console.error('Anthropic API error:', await response.text())
+      throw new Error(`Anthropic request failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('')
+
+    return {
+      content: request.json ? `{${text}` : text,
+      promptTokens: data.usage?.input_tokens || 0,
+      completionTokens: data.usage?.output_tokens || 0,
+    }
+  },
+}
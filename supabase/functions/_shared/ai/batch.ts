@@ -0,0 +1,275 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createJob, enqueueJob, type EnqueuedJob } from '../jobs/queue.ts'
+import { createNotification } from '../notifications.ts'
+import { consumeQuota, QuotaExceededError, refundQuota } from '../quota.ts'
+
+export interface AIBatchRequest {
+  social_account_id?: string
+  untagged_only?: boolean // Default true; false re-tags content that already has AI tags
+  published_since?: string // ISO date
+  concurrency?: number // ai_analysis jobs in flight at once (1-5, default 3)
+}
+
+export type AIBatchItemStatus = 'pending' | 'queued' | 'completed' | 'failed' | 'skipped'
+
+export interface AIBatchProgress {
+  batch_id: string
+  status: 'running' | 'completed' | 'quota_exceeded'
+  total: number
+  counts: Record<AIBatchItemStatus, number>
+  percent_complete: number
+  created_at: string
+  completed_at: string | null
+}
+
+export const MAX_BATCH_ITEMS = 500
+export const MAX_BATCH_CONCURRENCY = 5
+
+// Item jobs outrank the dispatcher, so a worker run finishes the current items
+// before the next dispatcher run refills the free slots
+const ITEM_JOB_PRIORITY = 7
+const BATCH_JOB_PRIORITY = 8
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+/**
+ * Create a batch from the filters, fill its items and queue the ai_batch dispatcher.
+ * Quota is charged per item when its job is queued, not up front.
+ */
+export async function createAIBatch(
+  supabase: SupabaseClient,
+  userId: string,
+  request: AIBatchRequest,
+  modelName?: string
+): Promise<{ progress: AIBatchProgress; job: EnqueuedJob | null }> {
+  const { data: batch, error: batchError } = await supabase
+    .from('ai_batch')
+    .insert({
+      user_id: userId,
+      social_account_id: request.social_account_id ?? null,
+      is_untagged_only: request.untagged_only !== false,
+      published_since: request.published_since ?? null,
+      model_name: modelName ?? null,
+      concurrency: Math.min(Math.max(Math.floor(request.concurrency || 3), 1), MAX_BATCH_CONCURRENCY),
+    })
+    .select('id')
+    .single()
+
+  if (batchError || !batch) {
+    throw new Error(batchError?.message || 'Failed to create AI batch')
+  }
+
+  const { data: total, error: itemsError } = await supabase.rpc('create_ai_batch_items', {
+    p_batch_id: batch.id,
+    p_max_items: MAX_BATCH_ITEMS,
+  })
+
+  if (itemsError) {
+    throw new Error(itemsError.message)
+  }
+
+  if (!total) {
+    await supabase
+      .from('ai_batch')
+      .update({ status: 'completed', completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', batch.id)
+
+    return { progress: await getAIBatchProgress(supabase, batch.id), job: null }
+  }
+
+  const job = await enqueueJob(supabase, userId, 'ai_batch', { batch_id: batch.id }, BATCH_JOB_PRIORITY)
+  return { progress: await getAIBatchProgress(supabase, batch.id), job }
+}
+
+export async function getAIBatchProgress(supabase: SupabaseClient, batchId: string): Promise<AIBatchProgress> {
+  const { data: batch, error } = await supabase
+    .from('ai_batch')
+    .select('id, status, total_items, created_at, completed_at, ai_batch_item(status)')
+    .eq('id', batchId)
+    .single()
+
+  if (error || !batch) {
+    throw new Error(error?.message || 'AI batch not found')
+  }
+
+  const counts: Record<AIBatchItemStatus, number> = { pending: 0, queued: 0, completed: 0, failed: 0, skipped: 0 }
+  for (const item of batch.ai_batch_item || []) {
+    counts[item.status as AIBatchItemStatus] += 1
+  }
+
+  const finished = counts.completed + counts.failed + counts.skipped
+
+  return {
+    batch_id: batch.id,
+    status: batch.status,
+    total: batch.total_items,
+    counts,
+    percent_complete: batch.total_items > 0 ? Math.round((finished / batch.total_items) * 100) : 100,
+    created_at: batch.created_at,
+    completed_at: batch.completed_at,
+  }
+}
+
+async function updateItem(
+  supabase: SupabaseClient,
+  batchId: string,
+  contentItemId: string,
+  update: { status: AIBatchItemStatus; job_id?: string; error_message?: string | null }
+) {
+  await supabase
+    .from('ai_batch_item')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('batch_id', batchId)
+    .eq('content_item_id', contentItemId)
+}
+
+/**
+ * One dispatcher pass: settle queued items whose jobs finished, then queue
+ * pending items until `concurrency` jobs are in flight. Stops charging once the
+ * ai_analysis quota is used up and skips what is left.
+ * Returns done=true once no item is pending or queued.
+ */
+export async function dispatchAIBatch(
+  supabase: SupabaseClient,
+  batchId: string
+): Promise<{ progress: AIBatchProgress; queued_now: number; done: boolean }> {
+  const { data: batch, error: batchError } = await supabase
+    .from('ai_batch')
+    .select('id, user_id, status, concurrency, is_untagged_only, model_name')
+    .eq('id', batchId)
+    .single()
+
+  if (batchError || !batch) {
+    throw new Error(batchError?.message || 'AI batch not found')
+  }
+
+  if (batch.status !== 'running') {
+    return { progress: await getAIBatchProgress(supabase, batchId), queued_now: 0, done: true }
+  }
+
+  // Settle items whose ai_analysis job has finished
+  const { data: queuedItems } = await supabase
+    .from('ai_batch_item')
+    .select('content_item_id, job_id')
+    .eq('batch_id', batchId)
+    .eq('status', 'queued')
+
+  const jobIds = (queuedItems || []).map((item) => item.job_id).filter(Boolean)
+  const { data: jobs } = jobIds.length > 0
+    ? await supabase
+      .from('job_queue')
+      .select('id, status, retry_count, max_retries, error_message')
+      .in('id', jobIds)
+    : { data: [] }
+
+  const jobsById = new Map((jobs || []).map((job) => [job.id, job]))
+  let inFlight = 0
+
+  for (const item of queuedItems || []) {
+    const job = jobsById.get(item.job_id)
+
+    if (job?.status === 'completed') {
+      await updateItem(supabase, batchId, item.content_item_id, { status: 'completed', error_message: null })
+      continue
+    }
+
+    // Failed jobs are retried by the worker until max_retries
+    const isFinalFailure = !job || job.status === 'cancelled' ||
+      (job.status === 'failed' && job.retry_count >= job.max_retries)
+
+    if (isFinalFailure) {
+      await updateItem(supabase, batchId, item.content_item_id, {
+        status: 'failed',
+        error_message: job?.error_message || (job ? 'Job cancelled' : 'Job no longer exists'),
+      })
+      await refundQuota(supabase, batch.user_id, 'ai_analysis', 'AI batch item failed')
+      continue
+    }
+
+    inFlight++
+  }
+
+  // Refill free slots
+  let queuedNow = 0
+  let quotaExceeded = false
+  const slots = Math.max(0, batch.concurrency - inFlight)
+
+  const { data: pendingItems } = slots > 0
+    ? await supabase
+      .from('ai_batch_item')
+      .select('content_item_id')
+      .eq('batch_id', batchId)
+      .eq('status', 'pending')
+      .limit(slots)
+    : { data: [] }
+
+  for (const item of pendingItems || []) {
+    try {
+      await consumeQuota(supabase, batch.user_id, 'ai_analysis', {
+        relatedEntityType: 'content_item',
+        relatedEntityId: item.content_item_id,
+      })
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        quotaExceeded = true
+        break
+      }
+      throw error
+    }
+
+    let jobId: string
+    try {
+      jobId = await createJob(supabase, batch.user_id, 'ai_analysis', {
+        content_id: item.content_item_id,
+        regenerate: !batch.is_untagged_only,
+        ...(batch.model_name ? { model: batch.model_name } : {}),
+        batch_id: batchId,
+      }, ITEM_JOB_PRIORITY)
+    } catch (error) {
+      // Per-user job limit reached - try again on the next pass
+      console.warn(`AI batch ${batchId} could not queue more jobs:`, error)
+      await refundQuota(supabase, batch.user_id, 'ai_analysis', 'AI batch job not queued')
+      break
+    }
+
+    await updateItem(supabase, batchId, item.content_item_id, { status: 'queued', job_id: jobId })
+    queuedNow++
+  }
+
+  if (quotaExceeded) {
+    await supabase
+      .from('ai_batch_item')
+      .update({ status: 'skipped', error_message: 'Monthly AI analysis limit reached', updated_at: new Date().toISOString() })
+      .eq('batch_id', batchId)
+      .eq('status', 'pending')
+  }
+
+  let progress = await getAIBatchProgress(supabase, batchId)
+  const done = progress.counts.pending === 0 && progress.counts.queued === 0
+
+  if (done) {
+    const now = new Date().toISOString()
+    const status = progress.counts.skipped > 0 ? 'quota_exceeded' : 'completed'
+
+    await supabase
+      .from('ai_batch')
+      .update({ status, completed_at: now, updated_at: now })
+      .eq('id', batchId)
+
+    await createNotification(supabase, {
+      user_id: batch.user_id,
+      type: status === 'completed' && progress.counts.failed === 0 ? 'success' : 'warning',
+      title: 'AI tagging finished',
+      message: `Tagged ${progress.counts.completed} of ${progress.total} items` +
+        (progress.counts.failed > 0 ? `, ${progress.counts.failed} failed` : '') +
+        (progress.counts.skipped > 0 ? `, ${progress.counts.skipped} skipped (monthly AI analysis limit reached)` : ''),
+      action_url: status === 'quota_exceeded' ? `${APP_BASE_URL}/pricing` : undefined,
+      related_entity_type: 'ai_batch',
+      related_entity_id: batchId,
+    })
+
+    progress = await getAIBatchProgress(supabase, batchId)
+  }
+
+  return { progress, queued_now: queuedNow, done }
+}
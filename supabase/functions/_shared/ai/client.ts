@@ -0,0 +1,201 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProvider } from './index.ts'
+import type { AICompletionResult, AIMessage, AIModel } from './types.ts'
+
+export interface AICallOptions {
+  operation: string // ai_usage.operation_type
+  messages: AIMessage[]
+  model?: string // ai_model.model_name requested by the caller
+  contentItemId?: string
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+}
+
+export interface AICallResult extends AICompletionResult {
+  model: AIModel
+  costCents: number
+  processingTimeMs: number
+}
+
+const DEFAULT_MODEL = Deno.env.get('AI_DEFAULT_MODEL') || 'gpt-4o-mini'
+
+const MODEL_COLUMNS = 'id, provider_id, model_name, input_cost_per_1k_tokens, output_cost_per_1k_tokens, ai_provider(slug)'
+
+// Row selected with MODEL_COLUMNS; ai_provider is a many-to-one embed
+interface ModelRow {
+  id: string
+  provider_id: string
+  model_name: string
+  input_cost_per_1k_tokens: number | string | null
+  output_cost_per_1k_tokens: number | string | null
+  ai_provider: { slug: string } | null
+}
+
+// The mock model is seeded everywhere; only AI_PROVIDER_OVERRIDE=mock may use it
+const MOCK_PROVIDER = 'mock'
+
+function toModel(row: ModelRow): AIModel {
+  return {
+    id: row.id,
+    provider_id: row.provider_id,
+    provider_slug: row.ai_provider?.slug || '',
+    model_name: row.model_name,
+    input_cost_per_1k_tokens: Number(row.input_cost_per_1k_tokens) || 0,
+    output_cost_per_1k_tokens: Number(row.output_cost_per_1k_tokens) || 0,
+  }
+}
+
+async function findModel(
+  supabase: SupabaseClient,
+  column: 'id' | 'model_name',
+  value: string | null | undefined,
+  allowMock = false
+): Promise<AIModel | null> {
+  if (!value) return null
+
+  const { data } = await supabase
+    .from('ai_model')
+    .select(MODEL_COLUMNS)
+    .eq(column, value)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle()
+
+  const row = data as unknown as ModelRow | null
+  const slug = row?.ai_provider?.slug
+  if (!row || !slug || (slug === MOCK_PROVIDER && !allowMock)) return null
+
+  // Providers without an implementation (e.g. google, local) are skipped
+  return getProvider(slug) ? toModel(row) : null
+}
+
+/**
+ * Pick the model for a call:
+ * AI_PROVIDER_OVERRIDE=mock > requested model > user_ai_setting > tier default > AI_DEFAULT_MODEL
+ * The requested and preferred models are only used when the user's tier allows them
+ * (default_ai_model_id or allowed_ai_model_ids); otherwise the tier default applies.
+ * mock-deterministic is unsupported unless AI_PROVIDER_OVERRIDE=mock.
+ */
+export async function resolveModel(
+  supabase: SupabaseClient,
+  userId: string,
+  requestedModel?: string
+): Promise<AIModel> {
+  if (Deno.env.get('AI_PROVIDER_OVERRIDE') === 'mock') {
+    const mock = await findModel(supabase, 'model_name', 'mock-deterministic', true)
+    if (mock) return mock
+  }
+
+  const { data: subscription } = await supabase
+    .from('subscription')
+    .select('subscription_tier(default_ai_model_id, allowed_ai_model_ids)')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const tier = (subscription as unknown as {
+    subscription_tier: { default_ai_model_id: string | null; allowed_ai_model_ids: string[] | null } | null
+  } | null)?.subscription_tier
+  const allowedIds = new Set([...(tier?.allowed_ai_model_ids || []), tier?.default_ai_model_id])
+
+  if (requestedModel) {
+    const model = await findModel(supabase, 'model_name', requestedModel)
+    if (!model) {
+      throw new Error(`Unsupported AI model: ${requestedModel}`)
+    }
+    if (allowedIds.has(model.id)) return model
+    console.warn(`AI model ${requestedModel} is not available on the tier of ${userId}, using the tier default`)
+  } else {
+    const { data: setting } = await supabase
+      .from('user_ai_setting')
+      .select('preferred_model_id')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    const preferred = await findModel(supabase, 'id', setting?.preferred_model_id)
+    if (preferred && allowedIds.has(preferred.id)) return preferred
+  }
+
+  const tierDefault = await findModel(supabase, 'id', tier?.default_ai_model_id)
+  if (tierDefault) return tierDefault
+
+  const fallback = await findModel(supabase, 'model_name', DEFAULT_MODEL)
+  if (!fallback) {
+    throw new Error(`Default AI model ${DEFAULT_MODEL} is not configured`)
+  }
+  return fallback
+}
+
+function costCents(model: AIModel, promptTokens: number, completionTokens: number): number {
+  const usd = (promptTokens / 1000) * model.input_cost_per_1k_tokens +
+    (completionTokens / 1000) * model.output_cost_per_1k_tokens
+  return Math.round(usd * 100 * 10000) / 10000
+}
+
+// Best-effort: a failed usage insert must not fail the AI operation itself
+async function logUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  options: AICallOptions,
+  result: AICallResult
+) {
+  const { data: subscription } = await supabase
+    .from('subscription')
+    .select('cycle_start_date, cycle_end_date')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('ai_usage')
+    .insert({
+      user_id: userId,
+      provider_id: result.model.provider_id,
+      model_id: result.model.id,
+      content_item_id: options.contentItemId ?? null,
+      operation_type: options.operation,
+      prompt_tokens: result.promptTokens,
+      completion_tokens: result.completionTokens,
+      total_tokens: result.promptTokens + result.completionTokens,
+      cost_cents: result.costCents,
+      processing_time_ms: result.processingTimeMs,
+      billing_cycle_start: subscription?.cycle_start_date ?? now,
+      billing_cycle_end: subscription?.cycle_end_date ?? now,
+    })
+
+  if (error) {
+    console.error('Failed to log AI usage:', error)
+  }
+}
+
+/**
+ * Run a completion on the resolved model and record tokens and cost in ai_usage
+ */
+export async function runAICompletion(
+  supabase: SupabaseClient,
+  userId: string,
+  options: AICallOptions
+): Promise<AICallResult> {
+  const model = await resolveModel(supabase, userId, options.model)
+  const provider = getProvider(model.provider_slug)!
+
+  const startedAt = Date.now()
+  const completion = await provider.complete({
+    model: model.model_name,
+    messages: options.messages,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    json: options.json,
+    operation: options.operation,
+  })
+
+  const result: AICallResult = {
+    ...completion,
+    model,
+    costCents: costCents(model, completion.promptTokens, completion.completionTokens),
+    processingTimeMs: Date.now() - startedAt,
+  }
+
+  await logUsage(supabase, userId, options, result)
+  return result
+}
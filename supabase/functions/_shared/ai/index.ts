@@ -0,0 +1,16 @@
+import type { AIProvider, AIProviderSlug } from './types.ts'
+import { openaiProvider } from './openai.ts'
+import { anthropicProvider } from './anthropic.ts'
+import { mockProvider } from './mock.ts'
+
+export type { AICompletionRequest, AICompletionResult, AIMessage, AIModel, AIProvider } from './types.ts'
+
+const providers: Record<AIProviderSlug, AIProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  mock: mockProvider,
+}
+
+export function getProvider(slug: string): AIProvider | null {
+  return providers[slug as AIProviderSlug] ?? null
+}
@@ -0,0 +1,101 @@
+import type { AICompletionRequest, AIProvider } from './types.ts'
+
+/**
+ * Deterministic provider for local development and CI - no network, no cost.
+ * Output is derived from the prompt text only, so the same content always
+ * produces the same tags.
+ */
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'does', 'each', 'from', 'have', 'here', 'into',
+  'just', 'like', 'more', 'most', 'only', 'over', 'some', 'than', 'that', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'very', 'what', 'when', 'where', 'which', 'while',
+  'will', 'with', 'your',
+])
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// "Title: ..." style line from the prompt
+function promptField(prompt: string, field: string): string {
+  const match = prompt.match(new RegExp(`^${field}:[ \\t]*(.*)$`, 'mi'))
+  return match?.[1]?.trim() || ''
+}
+
+// Most frequent words of the content fields, ties broken alphabetically
+function topWords(text: string, limit: number): string[] {
+  const counts = new Map<string, number>()
+  for (const word of text.toLowerCase().match(/[a-z][a-z0-9]{3,}/g) || []) {
+    if (STOP_WORDS.has(word)) continue
+    counts.set(word, (counts.get(word) || 0) + 1)
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word)
+}
+
+const mockResponses: Record<string, (prompt: string) => Record<string, unknown>> = {
+  tagging(prompt) {
+    const title = promptField(prompt, 'Title') || 'Untitled'
+    const description = promptField(prompt, 'Description').replace(/^No description$/, '')
+    const tags = topWords(`${title} ${description}`, 12)
+    const categories = promptField(prompt, 'Categories').split(/,\s*/).filter(Boolean)
+    const trending = promptField(prompt, 'Trending now').split(/,\s*/).filter(Boolean)
+
+    return {
+      tags,
+      tag_types: tags.map(() => 'keyword'),
+      confidence_scores: tags.map((_, index) => Math.round((0.95 - index * 0.03) * 100) / 100),
+      // Padded with tags so short titles still meet the validator's minimum lengths
+      seo_titles: [
+        `${title} | ${tags.slice(0, 4).join(', ')}`.substring(0, 60),
+        `${tags.slice(0, 3).join(' ')} - ${title}`.substring(0, 60),
+      ],
+      seo_description: `${description || title}. Topics: ${tags.join(', ')}`.substring(0, 160),
+      category: categories.find((code) => tags.includes(code)) || (categories.includes('other') ? 'other' : null),
+      trending_keywords: Array.from(new Set([...trending, ...tags])).slice(0, 5),
+      trending_hashtags: tags.slice(0, 5).map((tag) => `#${tag}`),
+      related_topics: tags.slice(5, 10),
+      target_audience: [],
+      sentiment: 'neutral',
+      seo_score: 0.5,
+      trending_score: 0.5,
+      readability_score: 0.5,
+    }
+  },
+  classification(prompt) {
+    const title = promptField(prompt, 'Title')
+    const description = promptField(prompt, 'Description').replace(/^No description$/, '')
+    const hashtags = promptField(prompt, 'Hashtags').replace(/^none$/, '')
+    const words = new Set(`${title} ${description} ${hashtags}`.toLowerCase().match(/[a-z0-9]+/g) || [])
+    const categories = Array.from(prompt.matchAll(/^- ([a-z0-9_]+):/gm), (match) => match[1])
+    const category = categories.find((code) => words.has(code))
+
+    return {
+      category: category || (categories.includes('other') ? 'other' : categories[0] ?? null),
+      confidence: category ? 0.7 : 0.3,
+    }
+  },
+}
+
+mockResponses.tagging_repair = mockResponses.tagging
+
+export const mockProvider: AIProvider = {
+  slug: 'mock',
+  displayName: 'Mock (deterministic)',
+
+  complete(request: AICompletionRequest) {
+    const prompt = request.messages.map((message) => message.content).join('\n')
+    const generate = mockResponses[request.operation]
+    const content = JSON.stringify(generate ? generate(prompt) : {})
+
+    return Promise.resolve({
+      content,
+      promptTokens: estimateTokens(prompt),
+      completionTokens: estimateTokens(content),
+    })
+  },
+}
@@ -0,0 +1,40 @@
+import type { AIProvider } from './types.ts'
+
+export const openaiProvider: AIProvider = {
+  slug: 'openai',
+  displayName: 'OpenAI',
+
+  async complete(request) {
+    const apiKey = Deno.env.get('OPENAI_API_KEY')
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured')
+    }
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 1000,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      console.error('OpenAI API error:', await response.text())
+      throw new Error(`OpenAI request failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return {
+      content: data.choices[0].message.content,
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: data.usage?.completion_tokens || 0,
+    }
+  },
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { diffRevisions, recordRevisions } from '../revisions.ts'
+
+// content_item fields an ai_suggestion can be applied to (ai_suggestion_application.field_name)
+export const SUGGESTION_FIELDS = ['seo_title', 'seo_description', 'category_code'] as const
+
+export type SuggestionField = typeof SUGGESTION_FIELDS[number]
+
+export interface SuggestionRow {
+  id: string
+  content_item_id: string
+  suggested_titles: string[] | null
+  suggested_description: string | null
+  suggested_category: string | null
+}
+
+export interface AppliedField {
+  field_name: SuggestionField
+  value: string
+}
+
+export function isSuggestionField(field: string): field is SuggestionField {
+  return (SUGGESTION_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * Value a field would get from the suggestion; titleIndex picks one of suggested_titles.
+ * Null when the suggestion has nothing for that field.
+ */
+export function suggestionValue(suggestion: SuggestionRow, field: SuggestionField, titleIndex = 0): string | null {
+  switch (field) {
+    case 'seo_title':
+      return suggestion.suggested_titles?.[titleIndex] ?? null
+    case 'seo_description':
+      return suggestion.suggested_description
+    case 'category_code':
+      return suggestion.suggested_category
+  }
+}
+
+/**
+ * Write the chosen suggestion fields to the content item and record each one in
+ * ai_suggestion_application and content_revision. Fields without a value are skipped.
+ */
+export async function applySuggestion(
+  supabase: SupabaseClient,
+  userId: string,
+  suggestion: SuggestionRow,
+  content: Record<string, unknown> & { id: string },
+  fields: SuggestionField[],
+  titleIndex = 0
+): Promise<AppliedField[]> {
+  const applied: AppliedField[] = []
+  for (const field of new Set(fields)) {
+    const value = suggestionValue(suggestion, field, titleIndex)
+    if (value !== null) applied.push({ field_name: field, value })
+  }
+
+  if (applied.length === 0) return applied
+
+  const update: Record<string, string> = Object.fromEntries(applied.map((item) => [item.field_name, item.value]))
+  const now = new Date().toISOString()
+
+  const { error: updateError } = await supabase
+    .from('content_item')
+    .update({
+      ...update,
+      // An approved category counts as the creator's choice for classification
+      ...('category_code' in update ? { category_source: 'user' } : {}),
+      updated_at: now,
+    })
+    .eq('id', content.id)
+
+  if (updateError) {
+    throw updateError
+  }
+
+  await recordRevisions(supabase, diffRevisions(
+    content.id,
+    userId,
+    content,
+    update,
+    'ai_suggestion',
+    `AI suggestion ${suggestion.id}`
+  ))
+
+  const { error: applicationError } = await supabase
+    .from('ai_suggestion_application')
+    .insert(applied.map((item) => ({
+      suggestion_id: suggestion.id,
+      field_name: item.field_name,
+      applied_value: item.value,
+      applied_by_user_id: userId,
+    })))
+
+  if (applicationError) {
+    console.error('Failed to record suggestion application:', applicationError)
+  }
+
+  await supabase
+    .from('ai_suggestion')
+    .update({ is_applied: true, applied_at: now, updated_at: now })
+    .eq('id', suggestion.id)
+
+  return applied
+}
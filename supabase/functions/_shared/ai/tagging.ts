@@ -0,0 +1,266 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { type AICallResult, runAICompletion } from './client.ts'
+import { applySuggestion, type SuggestionField } from './suggestions.ts'
+import type { AIMessage } from './types.ts'
+import { matchTrendingKeywords } from '../trending.ts'
+import {
+  AIOutputValidationError,
+  buildRepairPrompt,
+  TAG_TYPES,
+  type TaggingOutput,
+  validateTaggingOutput,
+} from './validation.ts'
+
+export interface AITagRequest {
+  content_id: string
+  regenerate?: boolean // Force regenerate even if tags exist
+  mode?: 'sync' | 'async'
+  model?: string // ai_model.model_name, e.g. 'gpt-4o-mini' or 'claude-3-5-sonnet-20241022'
+}
+
+export interface AITagResponse {
+  success: boolean
+  content_id: string
+  tags_generated: number
+  suggestion_id: string
+  // Fields written to the content item right away (user_setting.is_auto_apply_ai_suggestions_enabled)
+  applied_fields: SuggestionField[]
+  model: string
+  repaired: boolean // First answer failed validation and was repaired
+}
+
+const TAGGING_SCHEMA = `{
+  "tags": string[],              // 1-15 tags, lowercase
+  "tag_types": string[],         // same order as tags, one of: ${TAG_TYPES.join(', ')}
+  "confidence_scores": number[], // same order as tags, 0.0-1.0
+  "seo_titles": string[],        // 1-3 options, 50-60 characters each
+  "seo_description": string,     // 150-160 characters
+  "category": string,            // one of the listed category codes
+  "trending_keywords": string[],
+  "trending_hashtags": string[],
+  "related_topics": string[],
+  "target_audience": string[],
+  "sentiment": string,           // positive, neutral, negative or mixed
+  "seo_score": number,           // 0.0-1.0
+  "trending_score": number,      // 0.0-1.0
+  "readability_score": number    // 0.0-1.0
+}`
+
+export async function generateAITags(
+  supabase: SupabaseClient,
+  userId: string,
+  body: AITagRequest
+): Promise<AITagResponse> {
+  if (!body.content_id) {
+    throw new Error('content_id is required')
+  }
+
+  // Get content item
+  const { data: content, error: contentError } = await supabase
+    .from('content_item')
+    .select('*')
+    .eq('id', body.content_id)
+    .eq('user_id', userId)
+    .single()
+
+  if (contentError || !content) {
+    throw new Error('Content not found or access denied')
+  }
+
+  // Check if AI tags already exist (unless regenerate flag is set)
+  if (!body.regenerate) {
+    const { data: existingTags } = await supabase
+      .from('content_tag')
+      .select('id')
+      .eq('content_id', content.id)
+      .eq('source', 'ai_generated')
+      .limit(1)
+
+    if (existingTags && existingTags.length > 0) {
+      throw new Error('AI tags already generated. Use regenerate=true to force regeneration')
+    }
+  }
+
+  const { data: categoryRows } = await supabase
+    .from('content_category')
+    .select('code')
+    .eq('is_active', true)
+    .order('sort_order')
+
+  const categories = (categoryRows || []).map((row: { code: string }) => row.code)
+
+  // Trends only enrich the prompt; tagging works without them
+  const trendingKeywords = await matchTrendingKeywords(supabase, content).catch((error) => {
+    console.error('Failed to load trending keywords:', error)
+    return [] as string[]
+  })
+
+  const prompt = `Analyze this content and generate SEO-optimized tags and metadata:
+
+Title: ${content.title}
+Description: ${content.description || 'No description'}
+Platform: ${content.content_type}
+Categories: ${categories.join(', ')}${trendingKeywords.length > 0 ? `
+Trending now: ${trendingKeywords.join(', ')}` : ''}
+
+Generate a JSON response with:
+1. tags: Array of 10-15 relevant keywords/tags (single words or short phrases)
+2. tag_types: Array with the type of each tag, in the same order (${TAG_TYPES.join(', ')})
+3. confidence_scores: Array with a confidence score for each tag, in the same order (0.0-1.0)
+4. seo_titles: Array of 3 optimized title options, best first (50-60 characters, include main keyword)
+5. seo_description: Meta description (150-160 characters, compelling, include keywords)
+6. category: The best matching code from Categories
+7. trending_keywords, trending_hashtags, related_topics, target_audience: Arrays of up to 10 strings${trendingKeywords.length > 0 ? ' (prefer Trending now keywords that fit the content)' : ''}
+8. sentiment: positive, neutral, negative or mixed
+9. seo_score, trending_score, readability_score: Scores for the current title and description (0.0-1.0)
+
+Focus on discoverability, search intent, and relevance.`
+
+  const messages: AIMessage[] = [
+    {
+      role: 'system',
+      content: 'You are an SEO expert specializing in content tagging and metadata optimization. Always respond with valid JSON.',
+    },
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ]
+
+  // Model comes from the request, user_ai_setting or the tier default
+  const completion = await runAICompletion(supabase, userId, {
+    operation: 'tagging',
+    model: body.model,
+    contentItemId: content.id,
+    messages,
+    temperature: 0.7,
+    maxTokens: 1000,
+    json: true,
+  })
+
+  const calls: AICallResult[] = [completion]
+  let aiResult: TaggingOutput
+  let repaired = false
+  try {
+    aiResult = validateTaggingOutput(completion.content, { categories })
+  } catch (error) {
+    if (!(error instanceof AIOutputValidationError)) throw error
+    console.warn(`Invalid tagging output for ${content.id}, retrying with repair prompt:`, error.issues)
+
+    // One repair attempt on the same model; a second failure is returned to the caller
+    const repair = await runAICompletion(supabase, userId, {
+      operation: 'tagging_repair',
+      model: completion.model.model_name,
+      contentItemId: content.id,
+      messages: [
+        ...messages,
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: buildRepairPrompt(error.issues, TAGGING_SCHEMA) },
+      ],
+      temperature: 0.2,
+      maxTokens: 1000,
+      json: true,
+    })
+
+    calls.push(repair)
+    aiResult = validateTaggingOutput(repair.content, { categories })
+    repaired = true
+  }
+
+  // Delete existing AI-generated tags if regenerating
+  if (body.regenerate) {
+    await supabase
+      .from('content_tag')
+      .delete()
+      .eq('content_id', content.id)
+      .eq('source', 'ai_generated')
+  }
+
+  // Insert AI-generated tags
+  const tagInserts = aiResult.tags.map((tag) => ({
+    content_id: content.id,
+    tag: tag.tag,
+    source: 'ai_generated',
+    confidence_score: tag.confidence_score,
+    tag_type: tag.tag_type,
+    created_by: userId,
+  }))
+
+  const { error: tagError } = await supabase
+    .from('content_tag')
+    .insert(tagInserts)
+
+  if (tagError) {
+    console.error('Failed to insert tags:', tagError)
+    throw new Error('Failed to save AI-generated tags')
+  }
+
+  // AI-owned column; creator-facing fields wait for approval in ai_suggestion
+  await supabase
+    .from('content_item')
+    .update({ ai_description: aiResult.seo_description, updated_at: new Date().toISOString() })
+    .eq('id', content.id)
+
+  const { data: latest } = await supabase
+    .from('ai_suggestion')
+    .select('version')
+    .eq('content_item_id', content.id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const tagConfidence = aiResult.tags.reduce((sum, tag) => sum + tag.confidence_score, 0) / aiResult.tags.length
+
+  const { data: suggestion, error: suggestionError } = await supabase
+    .from('ai_suggestion')
+    .insert({
+      content_item_id: content.id,
+      provider_id: completion.model.provider_id,
+      model_id: completion.model.id,
+      suggested_titles: aiResult.seo_titles,
+      suggested_description: aiResult.seo_description,
+      suggested_tags: aiResult.tags.map((tag) => tag.tag),
+      suggested_category: aiResult.category,
+      trending_keywords: aiResult.trending_keywords,
+      trending_hashtags: aiResult.trending_hashtags,
+      related_topics: aiResult.related_topics,
+      trending_score: aiResult.trending_score,
+      seo_score: aiResult.seo_score,
+      readability_score: aiResult.readability_score,
+      confidence_score: Math.round(tagConfidence * 100) / 100,
+      sentiment: aiResult.sentiment,
+      target_audience: aiResult.target_audience,
+      prompt_tokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+      completion_tokens: calls.reduce((sum, call) => sum + call.completionTokens, 0),
+      total_cost_cents: calls.reduce((sum, call) => sum + call.costCents, 0),
+      processing_time_ms: calls.reduce((sum, call) => sum + call.processingTimeMs, 0),
+      version: (latest?.version || 0) + 1,
+    })
+    .select('id, content_item_id, suggested_titles, suggested_description, suggested_category')
+    .single()
+
+  if (suggestionError || !suggestion) {
+    console.error('Failed to save AI suggestion:', suggestionError)
+    throw new Error('Failed to save AI suggestion')
+  }
+
+  const { data: settings } = await supabase
+    .from('user_setting')
+    .select('is_auto_apply_ai_suggestions_enabled')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const applied = settings?.is_auto_apply_ai_suggestions_enabled
+    ? await applySuggestion(supabase, userId, suggestion, content, ['seo_title', 'seo_description', 'category_code'])
+    : []
+
+  return {
+    success: true,
+    content_id: content.id,
+    tags_generated: tagInserts.length,
+    suggestion_id: suggestion.id,
+    applied_fields: applied.map((item) => item.field_name),
+    model: completion.model.model_name,
+    repaired,
+  }
+}
@@ -0,0 +1,40 @@
+// Slugs used in ai_provider.slug that have an implementation
+export type AIProviderSlug = 'openai' | 'anthropic' | 'mock'
+
+export interface AIMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface AICompletionRequest {
+  model: string // ai_model.model_name
+  messages: AIMessage[]
+  temperature?: number
+  maxTokens?: number
+  // Ask the provider for a single JSON object
+  json?: boolean
+  // ai_usage.operation_type, also selects the mock provider's canned output
+  operation: string
+}
+
+export interface AICompletionResult {
+  content: string
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface AIProvider {
+  slug: AIProviderSlug
+  displayName: string
+  complete(request: AICompletionRequest): Promise<AICompletionResult>
+}
+
+// ai_model row joined with its provider slug
+export interface AIModel {
+  id: string
+  provider_id: string
+  provider_slug: string
+  model_name: string
+  input_cost_per_1k_tokens: number
+  output_cost_per_1k_tokens: number
+}
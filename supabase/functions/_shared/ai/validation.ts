@@ -0,0 +1,278 @@
+/**
+ * Validation of model output before it reaches the database.
+ * Fixable problems (casing, duplicates, out-of-range scores, overlong text) are
+ * repaired in place; anything else is reported as an issue so the caller can
+ * ask the model to repair its answer.
+ */
+
+// content_tag.tag_type CHECK constraint
+export const TAG_TYPES = ['keyword', 'topic', 'entity', 'emotion', 'trend', 'hashtag'] as const
+export type TagType = typeof TAG_TYPES[number]
+
+export const SENTIMENTS = ['positive', 'neutral', 'negative', 'mixed'] as const
+export type Sentiment = typeof SENTIMENTS[number]
+
+export const TAG_LIMITS = { min: 1, max: 15, maxLength: 50 }
+export const SEO_TITLE_LENGTH = { min: 20, max: 60 }
+export const SEO_DESCRIPTION_LENGTH = { min: 50, max: 160 }
+export const SEO_TITLE_OPTIONS = 3
+const LIST_LIMIT = 10
+
+const DEFAULT_CONFIDENCE = 0.85
+
+const TAG_TYPE_ALIASES: Record<string, TagType> = {
+  keywords: 'keyword',
+  topics: 'topic',
+  category: 'topic',
+  theme: 'topic',
+  entities: 'entity',
+  person: 'entity',
+  brand: 'entity',
+  organization: 'entity',
+  place: 'entity',
+  location: 'entity',
+  product: 'entity',
+  emotions: 'emotion',
+  mood: 'emotion',
+  sentiment: 'emotion',
+  trends: 'trend',
+  trending: 'trend',
+  hashtags: 'hashtag',
+}
+
+export interface ValidatedTag {
+  tag: string
+  tag_type: TagType
+  confidence_score: number
+}
+
+export interface TaggingOutput {
+  tags: ValidatedTag[]
+  seo_titles: string[] // Best option first
+  seo_description: string
+  category: string | null // content_category.code, null when the model's pick is unknown
+  trending_keywords: string[]
+  trending_hashtags: string[]
+  related_topics: string[]
+  target_audience: string[]
+  sentiment: Sentiment | null
+  seo_score: number | null
+  trending_score: number | null
+  readability_score: number | null
+}
+
+export class AIOutputValidationError extends Error {
+  code = 'AI_OUTPUT_INVALID'
+  issues: string[]
+
+  constructor(issues: string[]) {
+    super(`AI output failed validation: ${issues.join('; ')}`)
+    this.name = 'AIOutputValidationError'
+    this.issues = issues
+  }
+}
+
+// Models sometimes wrap JSON in ```json fences despite json mode
+export function parseJSONOutput(raw: string): Record<string, unknown> {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new AIOutputValidationError(['response is not valid JSON'])
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new AIOutputValidationError(['response must be a JSON object'])
+  }
+  return parsed as Record<string, unknown>
+}
+
+export function coerceTagType(value: unknown, tag: string): TagType {
+  const type = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  if ((TAG_TYPES as readonly string[]).includes(type)) return type as TagType
+  if (TAG_TYPE_ALIASES[type]) return TAG_TYPE_ALIASES[type]
+  return tag.startsWith('#') ? 'hashtag' : 'keyword'
+}
+
+// Scores are DECIMAL(3,2) columns; percentages are scaled down
+function clampScore(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return null
+  const score = parsed > 1 && parsed <= 100 ? parsed / 100 : parsed
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100
+}
+
+export function clampConfidence(value: unknown): number {
+  return clampScore(value) ?? DEFAULT_CONFIDENCE
+}
+
+export function truncateAtWord(text: string, max: number): string {
+  if (text.length <= max) return text
+  const cut = text.substring(0, max + 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return (lastSpace > max * 0.6 ? cut.substring(0, lastSpace) : text.substring(0, max))
+    .replace(/[\s,;:.-]+$/, '')
+}
+
+function normalizeTag(value: unknown): string {
+  if (typeof value !== 'string') return ''
+  return value
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .substring(0, TAG_LIMITS.maxLength)
+    .trim()
+}
+
+// Optional string lists: trimmed, deduplicated case-insensitively, capped
+function stringList(value: unknown, normalize: (item: string) => string = (item) => item): string[] {
+  if (!Array.isArray(value)) return []
+
+  const seen = new Set<string>()
+  const items: string[] = []
+  for (const entry of value) {
+    if (typeof entry !== 'string') continue
+    const item = normalize(entry.trim().replace(/\s+/g, ' '))
+    if (!item || seen.has(item.toLowerCase())) continue
+    seen.add(item.toLowerCase())
+    items.push(item)
+    if (items.length >= LIST_LIMIT) break
+  }
+  return items
+}
+
+function normalizeHashtag(value: string): string {
+  const tag = value.replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '')
+  return tag ? `#${tag.substring(0, TAG_LIMITS.maxLength)}` : ''
+}
+
+// tag_types / confidence_scores may come back as arrays aligned with tags or as { tag: value } maps
+function lookup(source: unknown, index: number, tag: string): unknown {
+  if (Array.isArray(source)) return source[index]
+  if (source && typeof source === 'object') {
+    const map = source as Record<string, unknown>
+    return map[tag] ?? map[tag.toLowerCase()]
+  }
+  return undefined
+}
+
+function validateText(
+  value: unknown,
+  field: string,
+  bounds: { min: number; max: number },
+  issues: string[]
+): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${field} is required`)
+    return ''
+  }
+
+  const text = value.trim().replace(/\s+/g, ' ')
+  if (text.length < bounds.min) {
+    issues.push(`${field} must be ${bounds.min}-${bounds.max} characters (got ${text.length})`)
+  }
+  return truncateAtWord(text, bounds.max)
+}
+
+/**
+ * Validate the tagging response: lowercased, deduplicated tags with a valid
+ * tag_type and a 0..1 confidence, SEO text within length bounds, and a category
+ * from `categories`. Optional suggestion fields are cleaned up but never fail
+ * validation. Throws AIOutputValidationError listing every problem that cannot
+ * be fixed here.
+ */
+export function validateTaggingOutput(raw: string, options: { categories?: string[] } = {}): TaggingOutput {
+  const output = parseJSONOutput(raw)
+  const issues: string[] = []
+
+  const tags: ValidatedTag[] = []
+  const seen = new Set<string>()
+
+  if (!Array.isArray(output.tags)) {
+    issues.push('tags must be an array of strings')
+  } else {
+    output.tags.forEach((entry: unknown, index: number) => {
+      // Accept { tag, tag_type, confidence_score } objects as well as plain strings
+      const item = entry && typeof entry === 'object' ? entry as Record<string, unknown> : null
+      const original = item ? item.tag : entry
+      const tag = normalizeTag(original)
+      if (!tag || seen.has(tag) || tags.length >= TAG_LIMITS.max) return
+      seen.add(tag)
+
+      const key = typeof original === 'string' ? original : tag
+      tags.push({
+        tag,
+        tag_type: coerceTagType(item?.tag_type ?? lookup(output.tag_types, index, key), tag),
+        confidence_score: clampConfidence(item?.confidence_score ?? lookup(output.confidence_scores, index, key)),
+      })
+    })
+
+    if (tags.length < TAG_LIMITS.min) {
+      issues.push(`tags must contain at least ${TAG_LIMITS.min} non-empty tag`)
+    }
+  }
+
+  // A single seo_title is accepted in place of the seo_titles list
+  const titleCandidates = Array.isArray(output.seo_titles) ? output.seo_titles : [output.seo_title]
+  const titleIssues: string[] = []
+  const seoTitles = stringList(
+    titleCandidates.map((title) => {
+      const issueCount = titleIssues.length
+      const text = validateText(title, 'seo_titles entry', SEO_TITLE_LENGTH, titleIssues)
+      return titleIssues.length === issueCount ? text : ''
+    })
+  ).slice(0, SEO_TITLE_OPTIONS)
+  if (seoTitles.length === 0) {
+    issues.push(titleIssues[0] || 'seo_titles must contain at least one title')
+  }
+
+  const seoDescription = validateText(output.seo_description, 'seo_description', SEO_DESCRIPTION_LENGTH, issues)
+
+  const category = typeof output.category === 'string' ? output.category.trim().toLowerCase() : ''
+  const sentiment = typeof output.sentiment === 'string' ? output.sentiment.trim().toLowerCase() : ''
+
+  if (issues.length > 0) {
+    throw new AIOutputValidationError(issues)
+  }
+
+  return {
+    tags,
+    seo_titles: seoTitles,
+    seo_description: seoDescription,
+    category: options.categories?.includes(category) ? category : null,
+    trending_keywords: stringList(output.trending_keywords, (item) => item.toLowerCase()),
+    trending_hashtags: stringList(output.trending_hashtags, normalizeHashtag),
+    related_topics: stringList(output.related_topics),
+    target_audience: stringList(output.target_audience),
+    sentiment: (SENTIMENTS as readonly string[]).includes(sentiment) ? sentiment as Sentiment : null,
+    seo_score: clampScore(output.seo_score),
+    trending_score: clampScore(output.trending_score),
+    readability_score: clampScore(output.readability_score),
+  }
+}
+
+/**
+ * Validate the classification response: a category from `categories` and a
+ * 0..1 confidence. Throws AIOutputValidationError when the category is unknown.
+ */
+export function validateClassificationOutput(raw: string, categories: string[]): { category: string; confidence: number } {
+  const output = parseJSONOutput(raw)
+  const category = typeof output.category === 'string' ? output.category.trim().toLowerCase() : ''
+
+  if (!categories.includes(category)) {
+    throw new AIOutputValidationError([`category must be one of: ${categories.join(', ')}`])
+  }
+
+  return { category, confidence: clampConfidence(output.confidence) }
+}
+
+// Follow-up message asking the model to fix its previous answer
+export function buildRepairPrompt(issues: string[], schema: string): string {
+  return `Your previous response could not be used:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Respond again with only a valid JSON object matching this schema:
+${schema}`
+}
@@ -0,0 +1,376 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { runAICompletion } from './ai/client.ts'
+import { AIOutputValidationError, validateClassificationOutput } from './ai/validation.ts'
+import { consumeQuota, QuotaExceededError, refundQuota } from './quota.ts'
+import { diffRevisions, recordRevisions } from './revisions.ts'
+
+// content_item.category_source
+export type CategorySource = 'platform' | 'hashtags' | 'ai' | 'user'
+
+export interface CategoryRow {
+  code: string
+  name: string
+  description: string | null
+  parent_category: string | null
+}
+
+export interface ClassificationResult {
+  content_id: string
+  category_code: string | null
+  source: CategorySource | null
+  confidence: number | null
+}
+
+export interface ClassifyOptions {
+  // Re-classify items that already have an automatic category (never 'user' ones)
+  force?: boolean
+  // Ask the AI layer when platform hints and hashtags are inconclusive
+  useAI?: boolean
+}
+
+// YouTube videoCategories (region-independent ids). Catch-all ids such as
+// 22 People & Blogs and 26 Howto & Style are left to hashtags / AI.
+const YOUTUBE_CATEGORY_MAP: Record<string, string> = {
+  '1': 'entertainment', // Film & Animation
+  '2': 'lifestyle', // Autos & Vehicles
+  '10': 'music',
+  '15': 'lifestyle', // Pets & Animals
+  '17': 'fitness', // Sports
+  '19': 'lifestyle', // Travel & Events
+  '20': 'gaming',
+  '23': 'comedy',
+  '24': 'entertainment',
+  '25': 'news', // News & Politics
+  '27': 'education',
+  '28': 'tech', // Science & Technology
+  '30': 'entertainment', // Movies
+  '43': 'entertainment', // Shows
+  '44': 'entertainment', // Trailers
+}
+
+// Hashtag / tag keywords per category code; a token matches a keyword exactly
+// or, for keywords of 4+ letters, as a prefix (#minecraftbuilds -> minecraft)
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  music: ['music', 'song', 'cover', 'singer', 'rap', 'hiphop', 'guitar', 'piano', 'remix', 'concert', 'lyrics', 'dj'],
+  gaming: ['gaming', 'gamer', 'game', 'gameplay', 'minecraft', 'fortnite', 'esports', 'twitch', 'playstation', 'xbox', 'nintendo', 'speedrun'],
+  education: ['education', 'tutorial', 'howto', 'learn', 'lesson', 'course', 'study', 'explained', 'tips'],
+  lifestyle: ['lifestyle', 'vlog', 'dayinmylife', 'travel', 'family', 'home', 'pets', 'dog', 'cat', 'wedding'],
+  comedy: ['comedy', 'funny', 'meme', 'memes', 'prank', 'sketch', 'standup', 'lol', 'humor'],
+  tech: ['tech', 'technology', 'coding', 'programming', 'developer', 'gadget', 'iphone', 'android', 'software', 'unboxing'],
+  beauty: ['beauty', 'makeup', 'skincare', 'fashion', 'outfit', 'ootd', 'style', 'hair', 'nails', 'grwm'],
+  fitness: ['fitness', 'workout', 'gym', 'yoga', 'running', 'health', 'nutrition', 'sports', 'football', 'basketball', 'soccer'],
+  food: ['food', 'recipe', 'cooking', 'baking', 'foodie', 'chef', 'vegan', 'dinner', 'mukbang'],
+  business: ['business', 'finance', 'investing', 'stocks', 'crypto', 'entrepreneur', 'marketing', 'money', 'startup'],
+  art: ['art', 'drawing', 'painting', 'diy', 'craft', 'crafts', 'artist', 'sketchbook', 'illustration'],
+  entertainment: ['movie', 'movies', 'film', 'tvshow', 'netflix', 'celebrity', 'trailer', 'anime', 'reaction'],
+  news: ['news', 'politics', 'breaking', 'election', 'journalism', 'worldnews'],
+  science: ['science', 'physics', 'chemistry', 'biology', 'space', 'nasa', 'experiment', 'astronomy'],
+}
+
+const FALLBACK_CATEGORY = 'other'
+
+export const CLASSIFICATION_BATCH_SIZE = 100
+
+const CONTENT_COLUMNS = 'id, title, description, tags, hashtags, platform_category_id, category_code, category_source'
+
+// Active categories without active children
+export async function loadLeafCategories(supabase: SupabaseClient): Promise<{
+  leaves: CategoryRow[]
+  childrenOf: Map<string, CategoryRow[]>
+}> {
+  const { data, error } = await supabase
+    .from('content_category')
+    .select('code, name, description, parent_category')
+    .eq('is_active', true)
+    .order('sort_order')
+
+  if (error) {
+    throw error
+  }
+
+  const categories = (data || []) as CategoryRow[]
+  const childrenOf = new Map<string, CategoryRow[]>()
+  for (const category of categories) {
+    if (!category.parent_category) continue
+    childrenOf.set(category.parent_category, [...(childrenOf.get(category.parent_category) || []), category])
+  }
+
+  return { leaves: categories.filter((category) => !childrenOf.has(category.code)), childrenOf }
+}
+
+// Lowercased hashtags from the text plus platform tags, without '#'
+function extractTokens(content: Record<string, unknown>): string[] {
+  const text = `${content.title || ''} ${content.description || ''}`
+  const hashtags = Array.from(text.matchAll(/#([\p{L}\p{N}_]+)/gu), (match) => match[1])
+  const listed = [
+    ...((content.hashtags as string[] | null) || []),
+    ...((content.tags as string[] | null) || []),
+  ]
+
+  return [...hashtags, ...listed]
+    .map((token) => token.toLowerCase().replace(/^#/, '').replace(/[\s_-]+/g, ''))
+    .filter(Boolean)
+}
+
+function keywordScore(tokens: string[], keywords: string[]): number {
+  return tokens.filter((token) =>
+    keywords.some((keyword) => token === keyword || (keyword.length >= 4 && token.startsWith(keyword)))
+  ).length
+}
+
+// Best-scoring category among `codes`; null on no match or a tie
+function bestByKeywords(tokens: string[], codes: string[]): { code: string; score: number } | null {
+  const scored = codes
+    .map((code) => ({ code, score: keywordScore(tokens, CATEGORY_KEYWORDS[code] || [code]) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  if (scored.length === 0 || (scored.length > 1 && scored[0].score === scored[1].score)) {
+    return null
+  }
+  return scored[0]
+}
+
+// Narrow a (possibly parent) category down to a leaf using the same keywords
+function toLeaf(code: string, tokens: string[], childrenOf: Map<string, CategoryRow[]>): string | null {
+  let current = code
+  while (childrenOf.has(current)) {
+    const best = bestByKeywords(tokens, childrenOf.get(current)!.map((child) => child.code))
+    if (!best) return null
+    current = best.code
+  }
+  return current
+}
+
+// One ai_analysis quota per AI classification, refunded when it yields nothing.
+// Throws QuotaExceededError when the user has none left.
+async function classifyWithAI(
+  supabase: SupabaseClient,
+  userId: string,
+  content: Record<string, unknown>,
+  tokens: string[],
+  leaves: CategoryRow[]
+): Promise<{ code: string; confidence: number } | null> {
+  const description = String(content.description || '').substring(0, 500)
+
+  await consumeQuota(supabase, userId, 'ai_analysis', {
+    relatedEntityType: 'content_item',
+    relatedEntityId: String(content.id),
+  })
+
+  let completion: Awaited<ReturnType<typeof runAICompletion>>
+  try {
+    completion = await runAICompletion(supabase, userId, {
+      operation: 'classification',
+      contentItemId: String(content.id),
+      messages: [
+        {
+          role: 'system',
+          content: 'You classify creator content into exactly one category. Always respond with valid JSON.',
+        },
+        {
+          role: 'user',
+          content: `Title: ${content.title || ''}
+Description: ${description || 'No description'}
+Hashtags: ${tokens.slice(0, 20).join(', ') || 'none'}
+
+Categories:
+${leaves.map((leaf) => `- ${leaf.code}: ${leaf.name}${leaf.description ? ` (${leaf.description})` : ''}`).join('\n')}
+
+Respond with {"category": "<code from Categories>", "confidence": 0.0-1.0}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 100,
+      json: true,
+    })
+  } catch (error) {
+    await refundQuota(supabase, userId, 'ai_analysis', 'AI classification failed')
+    throw error
+  }
+
+  try {
+    const result = validateClassificationOutput(completion.content, leaves.map((leaf) => leaf.code))
+    return { code: result.category, confidence: result.confidence }
+  } catch (error) {
+    if (!(error instanceof AIOutputValidationError)) throw error
+    console.warn(`Unusable classification for ${content.id}:`, error.issues)
+    await refundQuota(supabase, userId, 'ai_analysis', 'Unusable AI classification')
+    return null
+  }
+}
+
+/**
+ * Pick a leaf category: platform hint (YouTube categoryId) -> hashtags/tags -> AI.
+ * Returns null when nothing is conclusive and AI is disabled or fails; throws
+ * QuotaExceededError when AI is needed but the ai_analysis quota is used up.
+ */
+export async function classifyContent(
+  supabase: SupabaseClient,
+  userId: string,
+  content: Record<string, unknown>,
+  categories: Awaited<ReturnType<typeof loadLeafCategories>>,
+  useAI: boolean
+): Promise<Omit<ClassificationResult, 'content_id'>> {
+  const { leaves, childrenOf } = categories
+  const leafCodes = new Set(leaves.map((leaf) => leaf.code))
+  const tokens = extractTokens(content)
+
+  const hinted = YOUTUBE_CATEGORY_MAP[String(content.platform_category_id ?? '')]
+  if (hinted) {
+    const leaf = toLeaf(hinted, tokens, childrenOf)
+    if (leaf && leafCodes.has(leaf)) {
+      return { category_code: leaf, source: 'platform', confidence: 0.9 }
+    }
+  }
+
+  const topLevel = Array.from(new Set([...leaves.map((leaf) => leaf.code), ...childrenOf.keys()]))
+    .filter((code) => code !== FALLBACK_CATEGORY)
+  const byKeywords = bestByKeywords(tokens, topLevel)
+  if (byKeywords) {
+    const leaf = toLeaf(byKeywords.code, tokens, childrenOf)
+    if (leaf && leafCodes.has(leaf)) {
+      return {
+        category_code: leaf,
+        source: 'hashtags',
+        confidence: Math.min(0.9, 0.5 + byKeywords.score * 0.1),
+      }
+    }
+  }
+
+  if (useAI && leaves.length > 0) {
+    const byAI = await classifyWithAI(supabase, userId, content, tokens, leaves)
+    if (byAI) {
+      return { category_code: byAI.code, source: 'ai', confidence: byAI.confidence }
+    }
+  }
+
+  return { category_code: null, source: null, confidence: null }
+}
+
+/**
+ * Classify the given content items of a user and save the results.
+ * Items with a creator-chosen category (category_source 'user') are left alone;
+ * items with an automatic category only when `force` is set. Once the
+ * ai_analysis quota runs out the remaining items are classified without AI.
+ */
+export async function classifyContentItems(
+  supabase: SupabaseClient,
+  userId: string,
+  contentIds: string[],
+  options: ClassifyOptions = {}
+): Promise<ClassificationResult[]> {
+  if (contentIds.length === 0) return []
+
+  const { data: items, error } = await supabase
+    .from('content_item')
+    .select(CONTENT_COLUMNS)
+    .eq('user_id', userId)
+    .in('id', contentIds)
+    .is('deleted_at', null)
+
+  if (error) {
+    throw error
+  }
+
+  const categories = await loadLeafCategories(supabase)
+  const results: ClassificationResult[] = []
+  let useAI = options.useAI !== false
+
+  for (const content of items || []) {
+    if (content.category_source === 'user' || (content.category_code && !options.force)) {
+      results.push({
+        content_id: content.id,
+        category_code: content.category_code,
+        source: content.category_source,
+        confidence: null,
+      })
+      continue
+    }
+
+    let classification: Omit<ClassificationResult, 'content_id'>
+    try {
+      classification = await classifyContent(supabase, userId, content, categories, useAI)
+    } catch (classifyError) {
+      if (!(classifyError instanceof QuotaExceededError)) {
+        // AI provider errors leave the item for the next run
+        console.error(`Failed to classify ${content.id}:`, classifyError)
+        continue
+      }
+
+      // Out of AI analyses: stop asking for this and the remaining items
+      useAI = false
+      classification = await classifyContent(supabase, userId, content, categories, false)
+    }
+
+    const now = new Date().toISOString()
+    const update: Record<string, unknown> = { category_classified_at: now }
+    if (classification.category_code) {
+      update.category_code = classification.category_code
+      update.category_source = classification.source
+      update.category_confidence = classification.confidence
+    }
+
+    const { error: updateError } = await supabase
+      .from('content_item')
+      .update(update)
+      .eq('id', content.id)
+
+    if (updateError) {
+      console.error(`Failed to save category for ${content.id}:`, updateError)
+      continue
+    }
+
+    if (classification.category_code) {
+      await recordRevisions(supabase, diffRevisions(content.id, userId, content, update, 'classification'))
+    }
+
+    results.push({ content_id: content.id, ...classification })
+  }
+
+  return results
+}
+
+/**
+ * Classify the next page of a user's content that has not been classified yet
+ * (or, with `force`, was last classified before `startedAt`). Used by the
+ * content_classification job; has_more means another page is waiting.
+ */
+export async function classifyPendingContent(
+  supabase: SupabaseClient,
+  userId: string,
+  options: ClassifyOptions & { socialAccountId?: string; startedAt?: string } = {}
+): Promise<{ processed: number; classified: number; has_more: boolean }> {
+  let query = supabase
+    .from('content_item')
+    .select('id')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .or('category_source.is.null,category_source.neq.user')
+    .order('published_at', { ascending: false })
+    .limit(CLASSIFICATION_BATCH_SIZE)
+
+  if (options.socialAccountId) {
+    query = query.eq('social_account_id', options.socialAccountId)
+  }
+
+  query = options.force && options.startedAt
+    ? query.or(`category_classified_at.is.null,category_classified_at.lt."${options.startedAt}"`)
+    : query.is('category_classified_at', null)
+
+  const { data: pending, error } = await query
+
+  if (error) {
+    throw error
+  }
+
+  const ids = (pending || []).map((item) => item.id)
+  const results = await classifyContentItems(supabase, userId, ids, options)
+
+  return {
+    processed: ids.length,
+    classified: results.filter((result) => result.source && result.source !== 'user').length,
+    // Items that failed stay unclassified; stop instead of fetching them again
+    has_more: ids.length === CLASSIFICATION_BATCH_SIZE && results.length > 0,
+  }
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { Job, JobContext, JobLogLevel } from './types.ts'
+
+/**
+ * Error raised by job handlers.
+ * Non-retryable errors exhaust the job's retries so retry_failed_jobs() skips it.
+ */
+export class JobError extends Error {
+  code: string
+  retryable: boolean
+  details?: Record<string, unknown>
+
+  constructor(code: string, message: string, options: { retryable?: boolean; details?: Record<string, unknown> } = {}) {
+    super(message)
+    this.name = 'JobError'
+    this.code = code
+    this.retryable = options.retryable ?? true
+    this.details = options.details
+  }
+}
+
+export function createJobContext(supabase: SupabaseClient, job: Job, workerId: string): JobContext {
+  const log = async (level: JobLogLevel, message: string, metadata?: Record<string, unknown>) => {
+    const { error } = await supabase.rpc('add_job_log', {
+      p_job_id: job.id,
+      p_log_level: level,
+      p_message: message,
+      p_metadata: metadata ?? null,
+    })
+
+    if (error) {
+      console.error(`Failed to write job log for ${job.id}:`, error)
+    }
+  }
+
+  const progress = async (percent: number, message?: string) => {
+    const { data: updated, error } = await supabase.rpc('update_job_progress', {
+      p_job_id: job.id,
+      p_progress_percent: Math.max(0, Math.min(100, Math.round(percent))),
+      p_progress_message: message ?? null,
+    })
+
+    if (error) {
+      console.error(`Failed to update progress for ${job.id}:`, error)
+      return
+    }
+
+    // update_job_progress only matches rows still in 'processing'
+    if (updated === false) {
+      throw new JobError('JOB_CANCELLED', 'Job is no longer processing', { retryable: false })
+    }
+  }
+
+  return { supabase, job, workerId, progress, log }
+}
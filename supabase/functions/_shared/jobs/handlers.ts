@@ -0,0 +1,203 @@
+import { JobError } from './context.ts'
+import type { JobHandler, JobType } from './types.ts'
+import { getAdapter } from '../platforms/index.ts'
+import { runPlatformSync } from '../platforms/sync-engine.ts'
+import { refreshUserTokens } from '../platforms/token-refresh.ts'
+import { createJob, enqueueJob } from './queue.ts'
+import { generateAITags } from '../ai/tagging.ts'
+import { dispatchAIBatch } from '../ai/batch.ts'
+import { classifyPendingContent } from '../classification.ts'
+import { processDueSubmissions } from '../seo/submissions.ts'
+
+// params: { platform: 'youtube' | 'tiktok' | 'instagram', force_full_sync?: boolean, prepaid_quota?: 'sync' }
+const platformSync: JobHandler = async (ctx) => {
+  const platform = String(ctx.job.params.platform)
+  const adapter = getAdapter(platform)
+  if (!adapter) {
+    throw new JobError('INVALID_PARAMS', `Unsupported platform: ${platform}`, { retryable: false })
+  }
+
+  const onPage = (page: number, maxPages: number) =>
+    ctx.progress((page / maxPages) * 100, `Fetching page ${page + 1}/${maxPages}`)
+
+  const forceFullSync = ctx.job.params.force_full_sync === true
+
+  await ctx.log('info', `Starting ${adapter.displayName} ${forceFullSync ? 'full' : 'incremental'} sync`)
+
+  const result = await runPlatformSync(ctx.supabase, ctx.job.user_id, adapter, { forceFullSync, onPage })
+
+  await ctx.log('info', `Synced ${result.synced_count} items (${result.new_count} new, ${result.updated_count} updated, ${result.failed_count} failed)`)
+  if (result.removed_count > 0 || result.restored_count > 0) {
+    await ctx.log('info', `Removed ${result.removed_count} items no longer on ${adapter.displayName}, restored ${result.restored_count}`)
+  }
+
+  // Classify what this run saved; identical params dedupe while one is pending
+  if (result.new_count > 0 || result.updated_count > 0) {
+    try {
+      const classification = await enqueueJob(ctx.supabase, ctx.job.user_id, 'content_classification', {
+        social_account_id: result.social_account_id,
+      })
+      await ctx.log('info', 'Queued content classification', { job_id: classification.job_id })
+    } catch (error) {
+      await ctx.log('warning', `Failed to queue content classification: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  // Syncs run maxPages per job; chain the next run until the backfill is done or
+  // the incremental sync has caught up with its high-water mark
+  if (result.has_more) {
+    // Only the first job was charged; a failed continuation has nothing to refund
+    const { prepaid_quota: _prepaidQuota, ...params } = ctx.job.params
+    const nextJobId = await createJob(ctx.supabase, ctx.job.user_id, 'platform_sync', params, ctx.job.job_priority)
+    await ctx.log('info', `${forceFullSync ? 'Backfill' : 'Sync'} continues in next job`, { next_job_id: nextJobId })
+    return { ...result, next_job_id: nextJobId }
+  }
+
+  return { ...result }
+}
+
+// params: { content_id: string, regenerate?: boolean, model?: string, batch_id?: string, prepaid_quota?: 'ai_analysis' }
+const aiAnalysis: JobHandler = async (ctx) => {
+  const contentId = ctx.job.params.content_id
+  if (typeof contentId !== 'string') {
+    throw new JobError('INVALID_PARAMS', 'content_id is required', { retryable: false })
+  }
+
+  await ctx.progress(10, 'Generating AI tags')
+
+  const result = await generateAITags(ctx.supabase, ctx.job.user_id, {
+    content_id: contentId,
+    regenerate: ctx.job.params.regenerate === true,
+    model: typeof ctx.job.params.model === 'string' ? ctx.job.params.model : undefined,
+  })
+
+  await ctx.log('info', `Generated ${result.tags_generated} tags`, { content_id: contentId })
+  return { ...result }
+}
+
+// params: { batch_id: string } - queues the next ai_analysis jobs of a batch and
+// re-queues itself until every item has finished
+const aiBatch: JobHandler = async (ctx) => {
+  const batchId = ctx.job.params.batch_id
+  if (typeof batchId !== 'string') {
+    throw new JobError('INVALID_PARAMS', 'batch_id is required', { retryable: false })
+  }
+
+  const { progress, queued_now, done } = await dispatchAIBatch(ctx.supabase, batchId)
+
+  await ctx.log('info', `Queued ${queued_now} items, ${progress.percent_complete}% of ${progress.total} done`, {
+    batch_id: batchId,
+    counts: progress.counts,
+  })
+
+  if (!done) {
+    const nextJobId = await createJob(ctx.supabase, ctx.job.user_id, 'ai_batch', ctx.job.params, ctx.job.job_priority)
+    return { ...progress, queued_now, next_job_id: nextJobId }
+  }
+
+  return { ...progress, queued_now }
+}
+
+// params: { social_account_id?: string, force?: boolean, use_ai?: boolean, started_at?: string }
+// Classifies one page of content and re-queues itself while more is waiting.
+// force re-classifies automatic categories; started_at keeps continuations from
+// revisiting items this run already handled.
+const contentClassification: JobHandler = async (ctx) => {
+  const params = ctx.job.params
+  const force = params.force === true
+  const startedAt = typeof params.started_at === 'string' ? params.started_at : ctx.job.created_at
+
+  const result = await classifyPendingContent(ctx.supabase, ctx.job.user_id, {
+    socialAccountId: typeof params.social_account_id === 'string' ? params.social_account_id : undefined,
+    force,
+    useAI: params.use_ai !== false,
+    startedAt,
+  })
+
+  await ctx.log('info', `Classified ${result.classified} of ${result.processed} items`)
+
+  if (result.has_more) {
+    const nextJobId = await createJob(ctx.supabase, ctx.job.user_id, 'content_classification', {
+      ...params,
+      ...(force ? { started_at: startedAt } : {}),
+    }, ctx.job.job_priority)
+    return { ...result, next_job_id: nextJobId }
+  }
+
+  return { ...result }
+}
+
+// params: {} - sends the user's pending search engine submissions and the
+// retries that are due; re-queues itself while a full batch was processed
+const seoSubmission: JobHandler = async (ctx) => {
+  const result = await processDueSubmissions(ctx.supabase, ctx.job.user_id)
+
+  await ctx.log(
+    result.failed > 0 ? 'warning' : 'info',
+    `Submitted ${result.submitted} of ${result.processed} URLs (${result.retrying} will be retried, ${result.failed} failed)`
+  )
+
+  if (result.has_more) {
+    const nextJobId = await createJob(ctx.supabase, ctx.job.user_id, 'seo_submission', ctx.job.params, ctx.job.job_priority)
+    return { ...result, next_job_id: nextJobId }
+  }
+
+  return { ...result }
+}
+
+// params: {} - refreshes every credential of the job's user that is about to expire
+const tokenRefresh: JobHandler = async (ctx) => {
+  const result = await refreshUserTokens(ctx.supabase, ctx.job.user_id, (done, total) =>
+    ctx.progress((done / Math.max(total, 1)) * 100, `Checking credential ${done + 1}/${total}`)
+  )
+
+  await ctx.log(
+    result.reauth_required > 0 ? 'warning' : 'info',
+    `Refreshed ${result.refreshed} of ${result.checked} credentials (${result.reauth_required} need re-authentication)`
+  )
+  return { ...result }
+}
+
+// params: {} - resets the job's user counters if a new billing cycle has started
+const quotaReset: JobHandler = async (ctx) => {
+  const { data, error } = await ctx.supabase.rpc('reset_subscription_quota', {
+    p_user_id: ctx.job.user_id,
+  })
+
+  if (error || !data || data.length === 0) {
+    throw new JobError('QUOTA_RESET_FAILED', error?.message || 'Failed to reset quota')
+  }
+
+  const row = data[0]
+  if (!row.was_reset) {
+    await ctx.log('info', 'Billing cycle has not rolled over yet, nothing to reset')
+    return { was_reset: false, cycle_start: row.cycle_start, cycle_end: row.cycle_end }
+  }
+
+  await ctx.log('info', 'Monthly quota reset', {
+    syncs_used: row.previous_syncs_used,
+    ai_analyses_used: row.previous_ai_analyses_used,
+    seo_submissions_used: row.previous_seo_submissions_used,
+  })
+
+  return {
+    was_reset: true,
+    previous_usage: {
+      sync: row.previous_syncs_used,
+      ai_analysis: row.previous_ai_analyses_used,
+      seo_submission: row.previous_seo_submissions_used,
+    },
+    cycle_start: row.cycle_start,
+    cycle_end: row.cycle_end,
+  }
+}
+
+export const jobHandlers: Partial<Record<JobType, JobHandler>> = {
+  platform_sync: platformSync,
+  ai_analysis: aiAnalysis,
+  ai_batch: aiBatch,
+  content_classification: contentClassification,
+  seo_submission: seoSubmission,
+  token_refresh: tokenRefresh,
+  quota_reset: quotaReset,
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../cors.ts'
+import type { JobType } from './types.ts'
+
+export interface EnqueuedJob {
+  job_id: string
+  is_new: boolean
+  status: string
+}
+
+/**
+ * Queue a job for the job-worker.
+ * Goes through find_or_create_job() so repeated requests with identical params
+ * return the job that is already pending/processing instead of queueing another.
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  userId: string,
+  jobType: JobType,
+  params: Record<string, unknown> = {},
+  priority = 5
+): Promise<EnqueuedJob> {
+  const { data, error } = await supabase.rpc('find_or_create_job', {
+    p_user_id: userId,
+    p_job_type: jobType,
+    p_params: params,
+    p_priority: priority,
+  })
+
+  if (error || !data || data.length === 0) {
+    throw new Error(error?.message || 'Failed to queue job')
+  }
+
+  const row = data[0]
+  return {
+    job_id: row.job_id,
+    is_new: row.is_new,
+    status: row.existing_status,
+  }
+}
+
+/**
+ * Queue a job without deduplication, e.g. a handler scheduling its own continuation
+ * (find_or_create_job would return the still-processing parent instead).
+ */
+export async function createJob(
+  supabase: SupabaseClient,
+  userId: string,
+  jobType: JobType,
+  params: Record<string, unknown> = {},
+  priority = 5
+): Promise<string> {
+  const { data: jobId, error } = await supabase.rpc('create_job', {
+    p_user_id: userId,
+    p_job_type: jobType,
+    p_params: params,
+    p_priority: priority,
+  })
+
+  if (error || !jobId) {
+    throw new Error(error?.message || 'Failed to queue job')
+  }
+
+  return jobId
+}
+
+// `mode=async` may come from the query string or the JSON body
+export function isAsyncMode(req: Request, body?: { mode?: string } | null): boolean {
+  const mode = new URL(req.url).searchParams.get('mode') || body?.mode
+  return mode === 'async'
+}
+
+export function jobAcceptedResponse(job: EnqueuedJob, message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message,
+      job_id: job.job_id,
+      is_new: job.is_new,
+      status: job.status,
+      polling_endpoint: `/functions/v1/get-job-status?job_id=${job.job_id}`,
+    }),
+    {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
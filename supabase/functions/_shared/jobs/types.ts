@@ -0,0 +1,42 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Slugs from public.job_type
+export type JobType =
+  | 'platform_sync'
+  | 'ai_analysis'
+  | 'ai_batch'
+  | 'content_classification'
+  | 'seo_submission'
+  | 'quota_reset'
+  | 'token_refresh'
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export type JobLogLevel = 'debug' | 'info' | 'warning' | 'error'
+
+export interface Job {
+  id: string
+  user_id: string
+  job_type: JobType
+  job_priority: number
+  params: Record<string, unknown>
+  status: JobStatus
+  retry_count: number
+  max_retries: number
+  scheduled_for: string
+  expires_at: string
+  created_at: string
+}
+
+export interface JobContext {
+  supabase: SupabaseClient
+  job: Job
+  workerId: string
+  // Throws JOB_CANCELLED when the job is no longer processing (e.g. cancelled by the user)
+  progress(percent: number, message?: string): Promise<void>
+  log(level: JobLogLevel, message: string, metadata?: Record<string, unknown>): Promise<void>
+}
+
+export type JobResult = Record<string, unknown>
+
+export type JobHandler = (ctx: JobContext) => Promise<JobResult>
@@ -0,0 +1,51 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface NotificationInput {
+  user_id: string
+  type: 'info' | 'success' | 'warning' | 'error'
+  title: string
+  message: string
+  action_url?: string
+  action_label?: string
+  metadata?: Record<string, unknown>
+  related_entity_type?: string
+  related_entity_id?: string
+}
+
+/**
+ * Insert a notification unless an unread one for the same entity was created
+ * within `dedupeHours` - background jobs re-run and must not spam the user.
+ * Returns true when a notification was created.
+ */
+export async function createNotification(
+  supabase: SupabaseClient,
+  notification: NotificationInput,
+  dedupeHours = 24
+): Promise<boolean> {
+  if (notification.related_entity_id) {
+    const { data: existing } = await supabase
+      .from('notification')
+      .select('id')
+      .eq('user_id', notification.user_id)
+      .eq('related_entity_id', notification.related_entity_id)
+      .eq('title', notification.title)
+      .eq('is_read', false)
+      .gte('created_at', new Date(Date.now() - dedupeHours * 3_600_000).toISOString())
+      .limit(1)
+
+    if (existing && existing.length > 0) {
+      return false
+    }
+  }
+
+  const { error } = await supabase
+    .from('notification')
+    .insert(notification)
+
+  if (error) {
+    console.error('Failed to create notification:', error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,16 @@
+import type { PlatformAdapter, PlatformSlug } from './types.ts'
+import { youtubeAdapter } from './youtube.ts'
+import { tiktokAdapter } from './tiktok.ts'
+import { instagramAdapter } from './instagram.ts'
+
+export type { PlatformAdapter, PlatformSlug, PlatformTokens, SocialAccount } from './types.ts'
+
+const adapters: Record<PlatformSlug, PlatformAdapter> = {
+  youtube: youtubeAdapter,
+  tiktok: tiktokAdapter,
+  instagram: instagramAdapter,
+}
+
+export function getAdapter(platform: string): PlatformAdapter | null {
+  return adapters[platform as PlatformSlug] ?? null
+}
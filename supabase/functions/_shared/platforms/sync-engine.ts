@@ -0,0 +1,367 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ContentSyncResponse } from '../types.ts'
+import type { MappedContentItem, PlatformAdapter, SocialAccount } from './types.ts'
+import { getAccessToken } from './tokens.ts'
+import { diffRevisions, recordRevisions } from '../revisions.ts'
+
+export type SyncPageCallback = (page: number, maxPages: number) => Promise<void>
+
+export interface SyncOptions {
+  // Walk the whole catalogue, resuming from social_account.sync_cursor
+  forceFullSync?: boolean
+  onPage?: SyncPageCallback
+}
+
+export interface SyncResult extends ContentSyncResponse {
+  platform: string
+  mode: 'incremental' | 'full'
+  failed_count: number
+  total_items: number
+  social_account_id: string
+  high_water_mark: string | null
+  // Stopped at maxPages and must be resumed: a backfill, or an incremental
+  // sync that has not reached the high-water mark yet
+  has_more: boolean
+  // Soft-deleted because a completed backfill no longer saw them on the platform
+  removed_count: number
+  // Previously removed items that reappeared on the platform
+  restored_count: number
+}
+
+interface SavedPage {
+  newCount: number
+  updatedCount: number
+  restoredCount: number
+}
+
+/**
+ * Save one mapped page with a single upsert on (social_account_id, platform_content_id).
+ * A prefetch of the page's ids tells inserts from updates.
+ */
+async function saveContentPage(
+  supabase: SupabaseClient,
+  account: SocialAccount,
+  mappedItems: MappedContentItem[]
+): Promise<SavedPage> {
+  if (mappedItems.length === 0) {
+    return { newCount: 0, updatedCount: 0, restoredCount: 0 }
+  }
+
+  const platformContentIds = mappedItems.map((mapped) => mapped.platform_content_id)
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from('content_item')
+    .select('platform_content_id, deleted_reason, title, description, seo_title, seo_description, category_code')
+    .eq('social_account_id', account.id)
+    .in('platform_content_id', platformContentIds)
+
+  if (existingError) {
+    throw existingError
+  }
+
+  const existingById = new Map((existingRows || []).map((row) => [row.platform_content_id, row]))
+  const syncedAt = new Date().toISOString()
+
+  const { data: savedRows, error: upsertError } = await supabase
+    .from('content_item')
+    .upsert(
+      mappedItems.map((mapped) => ({
+        user_id: account.user_id,
+        social_account_id: account.id,
+        platform_content_id: mapped.platform_content_id,
+        ...mapped.data,
+        last_synced_at: syncedAt,
+        last_seen_at: syncedAt,
+      })),
+      { onConflict: 'social_account_id,platform_content_id', defaultToNull: false }
+    )
+    .select('id, platform_content_id')
+
+  if (upsertError) {
+    throw upsertError
+  }
+
+  // Carousel/album: replace media entries
+  const contentIds = new Map((savedRows || []).map((row) => [row.platform_content_id, row.id]))
+  const withMedia = mappedItems.filter((mapped) => mapped.media && contentIds.has(mapped.platform_content_id))
+
+  if (withMedia.length > 0) {
+    await supabase
+      .from('content_media')
+      .delete()
+      .in('content_id', withMedia.map((mapped) => contentIds.get(mapped.platform_content_id)))
+
+    await supabase
+      .from('content_media')
+      .insert(withMedia.flatMap((mapped) =>
+        mapped.media!.map((entry) => ({ content_id: contentIds.get(mapped.platform_content_id), ...entry }))
+      ))
+  }
+
+  // Back on the platform: undo removals made by sync or a disconnect (never user deletions)
+  const restoreIds = (existingRows || [])
+    .filter((row) => row.deleted_reason === 'removed_from_platform' || row.deleted_reason === 'account_disconnected')
+    .map((row) => row.platform_content_id)
+
+  if (restoreIds.length > 0) {
+    await supabase
+      .from('content_item')
+      .update({ deleted_at: null, deleted_reason: null })
+      .eq('social_account_id', account.id)
+      .in('platform_content_id', restoreIds)
+  }
+
+  // Field history for rows the platform changed
+  await recordRevisions(supabase, mappedItems.flatMap((mapped) => {
+    const existing = existingById.get(mapped.platform_content_id)
+    const contentId = contentIds.get(mapped.platform_content_id)
+    if (!existing || !contentId) return []
+    return diffRevisions(contentId, account.user_id, existing, mapped.data, 'platform_sync')
+  }))
+
+  // Daily engagement history: one row per item per day, the latest sync wins
+  const snapshotDate = syncedAt.substring(0, 10)
+  const { error: snapshotError } = await supabase
+    .from('content_metric_snapshot')
+    .upsert(
+      mappedItems
+        .filter((mapped) => contentIds.has(mapped.platform_content_id))
+        .map((mapped) => ({
+          content_item_id: contentIds.get(mapped.platform_content_id),
+          snapshot_date: snapshotDate,
+          views_count: mapped.data.views_count ?? 0,
+          likes_count: mapped.data.likes_count ?? 0,
+          comments_count: mapped.data.comments_count ?? 0,
+          shares_count: mapped.data.shares_count ?? 0,
+          captured_at: syncedAt,
+        })),
+      { onConflict: 'content_item_id,snapshot_date' }
+    )
+
+  if (snapshotError) {
+    console.error('Failed to write content metric snapshots:', snapshotError)
+  }
+
+  const newCount = platformContentIds.filter((id) => !existingById.has(id)).length
+  return { newCount, updatedCount: platformContentIds.length - newCount, restoredCount: restoreIds.length }
+}
+
+function laterOf(a: string | null, b: string | null): string | null {
+  if (!a || !b) return a || b
+  return new Date(b).getTime() > new Date(a).getTime() ? b : a
+}
+
+// Soft-delete live rows of the account that no sync has returned since `seenSince`
+async function removeUnseenContent(
+  supabase: SupabaseClient,
+  account: SocialAccount,
+  seenSince: string
+): Promise<number> {
+  const { data: removedRows, error } = await supabase
+    .from('content_item')
+    .update({ deleted_at: new Date().toISOString(), deleted_reason: 'removed_from_platform' })
+    .eq('social_account_id', account.id)
+    .is('deleted_at', null)
+    .lt('last_seen_at', seenSince)
+    .select('id')
+
+  if (error) {
+    console.error(`Failed to soft-delete removed content for ${account.id}:`, error)
+    return 0
+  }
+
+  return removedRows?.length || 0
+}
+
+/**
+ * Sync the user's active account for the adapter's platform:
+ * account lookup -> token (refresh if needed) -> paginate -> details -> map -> save.
+ *
+ * Incremental (default): newest first, stop at the page reaching sync_high_water_mark.
+ * The mark only moves once that page or the end of the listing is reached; a run
+ * stopped by maxPages saves sync_incremental_cursor and the next run continues there.
+ * Full: continue the backfill from sync_cursor for up to maxPages, persisting the
+ * cursor after every page so the next run (or a retried job) picks up from there.
+ */
+export async function runPlatformSync<TItem>(
+  supabase: SupabaseClient,
+  userId: string,
+  adapter: PlatformAdapter<TItem>,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const { data: socialAccount, error: accountError } = await supabase
+    .from('social_account')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('platform', adapter.platform)
+    .eq('is_active', true)
+    .single()
+
+  if (accountError || !socialAccount) {
+    throw new Error(`${adapter.displayName} account not connected`)
+  }
+
+  const account = socialAccount as SocialAccount
+  const accessToken = await getAccessToken(supabase, account, adapter)
+
+  const fullSync = options.forceFullSync === true
+  const highWaterMark = account.sync_high_water_mark
+  // A continued incremental sync keeps the newest item its earlier runs saw
+  let newestPublishedAt = fullSync ? highWaterMark : laterOf(highWaterMark, account.sync_pending_high_water_mark)
+
+  let newCount = 0
+  let updatedCount = 0
+  let restoredCount = 0
+  let removedCount = 0
+  let failedCount = 0
+  const errors: string[] = []
+  let cursor: string | null = fullSync ? account.sync_cursor : account.sync_incremental_cursor
+  let hasMore = false
+  let interrupted = false
+  let caughtUp = false
+
+  let backfillStartedAt = account.backfill_started_at
+  if (fullSync && !cursor) {
+    backfillStartedAt = new Date().toISOString()
+    await supabase
+      .from('social_account')
+      .update({ backfill_started_at: backfillStartedAt, backfill_completed_at: null })
+      .eq('id', account.id)
+  }
+
+  for (let page = 0; page < adapter.maxPages; page++) {
+    if (options.onPage) await options.onPage(page, adapter.maxPages)
+
+    let listed
+    try {
+      listed = await adapter.listContent(account, accessToken, cursor)
+    } catch (error) {
+      console.error(`Failed to fetch content from ${adapter.displayName}:`, error)
+      errors.push(error instanceof Error ? error.message : String(error))
+      // Keep sync_cursor so the next full sync retries this page
+      interrupted = true
+      break
+    }
+
+    let items: TItem[]
+    try {
+      items = await adapter.getDetails(accessToken, listed.items)
+    } catch (error) {
+      console.error(`Failed to fetch ${adapter.displayName} content details:`, error)
+      errors.push(error instanceof Error ? error.message : String(error))
+      failedCount += listed.items.length
+      items = []
+    }
+
+    let reachedHighWaterMark = false
+    const mappedItems: MappedContentItem[] = []
+
+    for (const item of items) {
+      try {
+        mappedItems.push(adapter.mapToContentItem(item))
+      } catch (error) {
+        console.error(`Failed to map ${adapter.displayName} item:`, error)
+        failedCount++
+      }
+    }
+
+    for (const mapped of mappedItems) {
+      const publishedAt = mapped.data.published_at as string | undefined
+      if (!publishedAt) continue
+
+      const publishedTime = new Date(publishedAt).getTime()
+      if (!newestPublishedAt || publishedTime > new Date(newestPublishedAt).getTime()) {
+        newestPublishedAt = publishedAt
+      }
+      if (highWaterMark && publishedTime <= new Date(highWaterMark).getTime()) {
+        reachedHighWaterMark = true
+      }
+    }
+
+    try {
+      const saved = await saveContentPage(supabase, account, mappedItems)
+      newCount += saved.newCount
+      updatedCount += saved.updatedCount
+      restoredCount += saved.restoredCount
+    } catch (error) {
+      console.error(`Failed to save ${adapter.displayName} page:`, error)
+      errors.push(error instanceof Error ? error.message : String(error))
+      failedCount += mappedItems.length
+    }
+
+    cursor = listed.nextCursor
+
+    if (fullSync) {
+      await supabase
+        .from('social_account')
+        .update({ sync_cursor: cursor })
+        .eq('id', account.id)
+    }
+
+    if (!cursor || listed.items.length === 0 || (!fullSync && reachedHighWaterMark)) {
+      caughtUp = true
+      break
+    }
+
+    hasMore = page === adapter.maxPages - 1
+  }
+
+  const accountUpdate: Record<string, unknown> = {
+    last_synced_at: new Date().toISOString(),
+  }
+  if (fullSync || caughtUp) {
+    accountUpdate.sync_high_water_mark = newestPublishedAt
+  }
+  if (!fullSync && caughtUp) {
+    accountUpdate.sync_incremental_cursor = null
+    accountUpdate.sync_pending_high_water_mark = null
+  } else if (!fullSync && hasMore) {
+    // Items between here and the old mark are not imported yet: advancing the
+    // mark now would skip them for good
+    accountUpdate.sync_incremental_cursor = cursor
+    accountUpdate.sync_pending_high_water_mark = newestPublishedAt
+  }
+  if (fullSync && !hasMore && !interrupted) {
+    accountUpdate.sync_cursor = null
+    accountUpdate.backfill_completed_at = new Date().toISOString()
+
+    // The backfill walked the whole catalogue: anything not seen since it started
+    // is gone from the platform. Skip when items failed to save - they were not
+    // stamped and would be removed by mistake.
+    if (failedCount === 0 && backfillStartedAt) {
+      removedCount = await removeUnseenContent(supabase, account, backfillStartedAt)
+    } else {
+      console.warn(`Skipping removal detection for ${account.id}: ${failedCount} items failed`)
+    }
+  }
+
+  await supabase
+    .from('social_account')
+    .update(accountUpdate)
+    .eq('id', account.id)
+
+  const { error: snapshotError } = await supabase.rpc('snapshot_account_metrics', {
+    p_social_account_id: account.id,
+  })
+
+  if (snapshotError) {
+    console.error(`Failed to snapshot account metrics for ${account.id}:`, snapshotError)
+  }
+
+  return {
+    success: true,
+    platform: adapter.platform,
+    mode: fullSync ? 'full' : 'incremental',
+    synced_count: newCount + updatedCount,
+    new_count: newCount,
+    updated_count: updatedCount,
+    failed_count: failedCount,
+    total_items: newCount + updatedCount + failedCount,
+    social_account_id: account.id,
+    high_water_mark: fullSync || caughtUp ? newestPublishedAt : highWaterMark,
+    has_more: hasMore,
+    removed_count: removedCount,
+    restored_count: restoredCount,
+    errors,
+  }
+}
@@ -0,0 +1,108 @@
+import type { PlatformAdapter, PlatformTokens } from './types.ts'
+import { readRefreshResponse } from './tokens.ts'
+
+interface TikTokVideo {
+  id: string
+  title?: string
+  video_description?: string
+  duration?: number
+  cover_image_url: string
+  share_url: string
+  view_count?: number
+  like_count?: number
+  comment_count?: number
+  create_time: number
+}
+
+export const tiktokAdapter: PlatformAdapter<TikTokVideo> = {
+  platform: 'tiktok',
+  displayName: 'TikTok',
+  maxPages: 5, // 100 videos per sync
+  pageSize: 20,
+
+  async listContent(_account, accessToken, cursor) {
+    const url = new URL('https://open.tiktokapis.com/v2/video/list/')
+    url.searchParams.set('fields', 'id,title,video_description,duration,cover_image_url,share_url,view_count,like_count,comment_count,create_time')
+    url.searchParams.set('max_count', String(this.pageSize))
+    if (cursor) url.searchParams.set('cursor', cursor)
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`TikTok video list failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return {
+      items: data.data?.videos || [],
+      nextCursor: data.data?.has_more ? String(data.data.cursor) : null,
+    }
+  },
+
+  // video/list already returns every field we map
+  getDetails(_accessToken, items) {
+    return Promise.resolve(items)
+  },
+
+  async refreshToken(tokens: PlatformTokens) {
+    const response = await fetch('https://open.tiktokapis.com/v2/oauth/token/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_key: Deno.env.get('TIKTOK_CLIENT_KEY')!,
+        client_secret: Deno.env.get('TIKTOK_CLIENT_SECRET')!,
+        refresh_token: tokens.refresh_token!,
+        grant_type: 'refresh_token',
+      }),
+    })
+
+    // TikTok reports errors in the body, sometimes with a 200
+    const newTokens = await readRefreshResponse(response, (body) => body.error === 'invalid_grant')
+    if (!newTokens) return null
+
+    return {
+      ...tokens,
+      access_token: newTokens.access_token!,
+      // TikTok rotates refresh tokens
+      refresh_token: newTokens.refresh_token || tokens.refresh_token,
+      expires_at: new Date(Date.now() + (newTokens.expires_in ?? 86400) * 1000).toISOString(),
+    }
+  },
+
+  mapToContentItem(video) {
+    return {
+      platform_content_id: video.id,
+      data: {
+        title: video.title || video.video_description?.substring(0, 100) || 'TikTok Video',
+        description: video.video_description || '',
+        thumbnail_url: video.cover_image_url,
+        content_url: video.share_url,
+        content_type: 'video',
+        duration_seconds: video.duration || 0,
+        views_count: video.view_count || 0,
+        likes_count: video.like_count || 0,
+        comments_count: video.comment_count || 0,
+        published_at: new Date(video.create_time * 1000).toISOString(),
+        canonical_url: video.share_url,
+      },
+    }
+  },
+
+  async revokeToken(tokens: PlatformTokens) {
+    const response = await fetch('https://open.tiktokapis.com/v2/oauth/revoke/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_key: Deno.env.get('TIKTOK_CLIENT_KEY')!,
+        client_secret: Deno.env.get('TIKTOK_CLIENT_SECRET')!,
+        token: tokens.access_token,
+      }),
+    })
+
+    return response.ok
+  },
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getAdapter } from './index.ts'
+import { readTokens } from './tokens.ts'
+import { createNotification } from '../notifications.ts'
+import { JobError } from '../jobs/context.ts'
+
+// Refresh anything expiring within this window (Instagram long-lived tokens last 60 days)
+const REFRESH_WINDOW_MS = 3 * 24 * 60 * 60 * 1000
+
+export interface TokenRefreshResult {
+  checked: number
+  refreshed: number
+  skipped: number
+  reauth_required: number
+}
+
+// One Vault secret, referenced by a platform_connection and/or social accounts
+interface Credential {
+  vaultKey: string
+  platform: string
+  connectionId: string | null
+  socialAccountId: string | null
+}
+
+async function markReauthRequired(
+  supabase: SupabaseClient,
+  userId: string,
+  credential: Credential,
+  displayName: string,
+  reason: string
+): Promise<void> {
+  if (credential.connectionId) {
+    await supabase
+      .from('platform_connection')
+      .update({ is_verified: false, last_error: reason, updated_at: new Date().toISOString() })
+      .eq('id', credential.connectionId)
+  }
+
+  const appUrl = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+  await createNotification(supabase, {
+    user_id: userId,
+    type: 'warning',
+    title: `Reconnect your ${displayName} account`,
+    message: `We could not renew access to your ${displayName} account, so syncing is paused. Please reconnect it.`,
+    action_url: `${appUrl}/settings/connections`,
+    action_label: 'Reconnect',
+    metadata: { platform: credential.platform, reason },
+    related_entity_type: credential.connectionId ? 'platform_connection' : 'social_account',
+    related_entity_id: credential.connectionId ?? credential.socialAccountId ?? undefined,
+  })
+}
+
+/**
+ * Refresh every OAuth credential of the user that expires within REFRESH_WINDOW_MS.
+ * Success: Vault + platform_connection (token_expires_at, is_verified, last_error).
+ * Rejected grant: platform_connection flagged unverified and the user is asked to reconnect.
+ * Transient failure (429, 5xx, network): left untouched; a retryable JobError is thrown
+ * once the other credentials are done.
+ */
+export async function refreshUserTokens(
+  supabase: SupabaseClient,
+  userId: string,
+  onProgress?: (done: number, total: number) => Promise<void>
+): Promise<TokenRefreshResult> {
+  const { data: connections } = await supabase
+    .from('platform_connection')
+    .select('id, vault_secret_name, platform:platform_id (slug)')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+
+  const { data: socialAccounts } = await supabase
+    .from('social_account')
+    .select('id, platform, vault_key')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+
+  // Deduplicate by Vault key - a connection and its accounts may share one secret
+  const credentials = new Map<string, Credential>()
+
+  for (const connection of connections || []) {
+    const platform = (connection.platform as unknown as { slug: string } | null)?.slug
+    if (!platform || !connection.vault_secret_name) continue
+    credentials.set(connection.vault_secret_name, {
+      vaultKey: connection.vault_secret_name,
+      platform,
+      connectionId: connection.id,
+      socialAccountId: null,
+    })
+  }
+
+  for (const account of socialAccounts || []) {
+    if (!account.vault_key) continue
+    const existing = credentials.get(account.vault_key)
+    if (existing) {
+      existing.socialAccountId = account.id
+      continue
+    }
+    credentials.set(account.vault_key, {
+      vaultKey: account.vault_key,
+      platform: account.platform,
+      connectionId: null,
+      socialAccountId: account.id,
+    })
+  }
+
+  const result: TokenRefreshResult = { checked: 0, refreshed: 0, skipped: 0, reauth_required: 0 }
+  const total = credentials.size
+  const transientFailures: string[] = []
+
+  for (const credential of credentials.values()) {
+    if (onProgress) await onProgress(result.checked, total)
+    result.checked++
+
+    const adapter = getAdapter(credential.platform)
+    if (!adapter) {
+      result.skipped++
+      continue
+    }
+
+    let tokens
+    try {
+      tokens = await readTokens(supabase, credential.vaultKey)
+    } catch (_error) {
+      result.reauth_required++
+      await markReauthRequired(supabase, userId, credential, adapter.displayName, 'Stored credentials not found')
+      continue
+    }
+
+    const expiresAt = tokens.expires_at ? new Date(tokens.expires_at).getTime() : null
+    if (expiresAt && expiresAt > Date.now() + REFRESH_WINDOW_MS) {
+      result.skipped++
+      continue
+    }
+
+    let refreshed
+    try {
+      refreshed = await adapter.refreshToken(tokens)
+    } catch (error) {
+      console.error(`Token refresh request failed for ${credential.platform}:`, error)
+      transientFailures.push(`${credential.platform}: ${error instanceof Error ? error.message : error}`)
+      continue
+    }
+
+    if (!refreshed) {
+      result.reauth_required++
+      await markReauthRequired(supabase, userId, credential, adapter.displayName, `${adapter.displayName} rejected the token refresh`)
+      continue
+    }
+
+    await supabase.rpc('vault_update', {
+      secret_name: credential.vaultKey,
+      secret: JSON.stringify(refreshed),
+    })
+
+    if (credential.connectionId) {
+      await supabase
+        .from('platform_connection')
+        .update({
+          token_expires_at: refreshed.expires_at ?? null,
+          is_verified: true,
+          last_verified_at: new Date().toISOString(),
+          last_error: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', credential.connectionId)
+    }
+
+    result.refreshed++
+  }
+
+  if (transientFailures.length > 0) {
+    throw new JobError('TOKEN_REFRESH_FAILED', `Token refresh failed: ${transientFailures.join('; ')}`, {
+      details: { ...result },
+    })
+  }
+
+  return result
+}
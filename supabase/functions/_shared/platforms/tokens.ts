@@ -0,0 +1,72 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { PlatformAdapter, PlatformTokens, SocialAccount } from './types.ts'
+
+export interface RefreshResponseBody {
+  access_token?: string
+  refresh_token?: string
+  expires_in?: number
+  error?: unknown
+}
+
+export async function readTokens(supabase: SupabaseClient, vaultKey: string): Promise<PlatformTokens> {
+  const { data: vaultData, error: vaultError } = await supabase.rpc('vault_read', {
+    secret_name: vaultKey,
+  })
+
+  if (vaultError || !vaultData) {
+    throw new Error('Failed to retrieve access token')
+  }
+
+  return JSON.parse(vaultData)
+}
+
+/**
+ * Read an OAuth refresh response. Returns null when the platform rejected the grant
+ * (revoked or expired refresh token) - only reconnecting fixes that. Anything else
+ * that is not a token (429, 5xx, unexpected bodies) throws so the refresh is retried.
+ */
+export async function readRefreshResponse(
+  response: Response,
+  isGrantRejected: (body: RefreshResponseBody) => boolean
+): Promise<RefreshResponseBody | null> {
+  const body: RefreshResponseBody | null = await response.json().catch(() => null)
+
+  if (body && isGrantRejected(body)) {
+    return null
+  }
+
+  if (!response.ok || !body?.access_token) {
+    throw new Error(`Token refresh failed with status ${response.status}`)
+  }
+
+  return body
+}
+
+/**
+ * Return a usable access token for the account, refreshing it in Vault when expired.
+ * If the platform refuses the refresh the stored token is returned as-is and the
+ * API call that follows surfaces the auth error; transient refresh failures throw.
+ */
+export async function getAccessToken(
+  supabase: SupabaseClient,
+  account: SocialAccount,
+  adapter: PlatformAdapter
+): Promise<string> {
+  const tokens = await readTokens(supabase, account.vault_key)
+
+  if (!tokens.expires_at || new Date(tokens.expires_at) >= new Date()) {
+    return tokens.access_token
+  }
+
+  const refreshed = await adapter.refreshToken(tokens)
+  if (!refreshed) {
+    return tokens.access_token
+  }
+
+  await supabase.rpc('vault_update', {
+    secret_name: account.vault_key,
+    secret: JSON.stringify(refreshed),
+  })
+
+  return refreshed.access_token
+}
@@ -0,0 +1,71 @@
+// Slugs used in social_account.platform
+export type PlatformSlug = 'youtube' | 'tiktok' | 'instagram'
+
+// Shape of the JSON secret stored in Vault under social_account.vault_key
+export interface PlatformTokens {
+  access_token: string
+  refresh_token?: string
+  expires_at?: string
+  [key: string]: unknown
+}
+
+export interface SocialAccount {
+  id: string
+  user_id: string
+  platform: PlatformSlug
+  platform_user_id: string
+  vault_key: string
+  last_synced_at: string | null
+  sync_high_water_mark: string | null
+  sync_cursor: string | null
+  backfill_started_at: string | null
+  sync_incremental_cursor: string | null
+  sync_pending_high_water_mark: string | null
+}
+
+export interface ContentPage<TItem> {
+  items: TItem[]
+  // null when the platform has no more pages
+  nextCursor: string | null
+}
+
+export interface ContentMediaEntry {
+  media_url: string
+  media_type: 'video' | 'image'
+  display_order: number
+}
+
+export interface MappedContentItem {
+  platform_content_id: string
+  // content_item columns owned by the platform (everything except ids)
+  data: Record<string, unknown>
+  // Carousel/album children, replaces content_media rows when present
+  media?: ContentMediaEntry[]
+}
+
+/**
+ * One implementation per platform; the sync engine drives any adapter.
+ * Adapters only talk to the platform API - all database work lives in the engine.
+ */
+export interface PlatformAdapter<TItem = unknown> {
+  platform: PlatformSlug
+  displayName: string
+  // Pages fetched per sync run (pageSize items each)
+  maxPages: number
+  pageSize: number
+
+  // Fetch one page of the account's content, newest first. Throws on API errors.
+  listContent(account: SocialAccount, accessToken: string, cursor: string | null): Promise<ContentPage<TItem>>
+
+  // Enrich a listed page with full details (statistics, durations). Identity where listing is already complete.
+  getDetails(accessToken: string, items: TItem[]): Promise<TItem[]>
+
+  // Exchange the stored tokens for fresh ones. Returns null when the platform rejected the
+  // grant (revoked/expired refresh token) and throws on transient failures (429, 5xx, network).
+  refreshToken(tokens: PlatformTokens): Promise<PlatformTokens | null>
+
+  mapToContentItem(item: TItem): MappedContentItem
+
+  // Invalidate the grant at the platform on disconnect. Returns false when the platform refused.
+  revokeToken(tokens: PlatformTokens): Promise<boolean>
+}
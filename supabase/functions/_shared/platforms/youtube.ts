@@ -0,0 +1,138 @@
+import type { PlatformAdapter, PlatformTokens } from './types.ts'
+import { readRefreshResponse } from './tokens.ts'
+
+interface YouTubeVideo {
+  id: string
+  snippet: {
+    title: string
+    description: string
+    publishedAt: string
+    tags?: string[]
+    categoryId?: string
+    thumbnails: { default: { url: string }; high?: { url: string } }
+  }
+  statistics: { viewCount?: string; likeCount?: string; commentCount?: string }
+  contentDetails: { duration: string }
+}
+
+// search.list only returns ids + snippets; videos.list fills in the rest
+interface YouTubeSearchItem {
+  id: { videoId: string }
+}
+
+type YouTubeItem = YouTubeSearchItem | YouTubeVideo
+
+// Parse ISO 8601 duration (PT1H2M3S) to seconds
+function parseDuration(duration: string): number {
+  const durationMatch = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/)
+  const hours = parseInt(durationMatch?.[1] || '0')
+  const minutes = parseInt(durationMatch?.[2] || '0')
+  const seconds = parseInt(durationMatch?.[3] || '0')
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+export const youtubeAdapter: PlatformAdapter<YouTubeItem> = {
+  platform: 'youtube',
+  displayName: 'YouTube',
+  maxPages: 5, // 250 videos per sync
+  pageSize: 50,
+
+  async listContent(_account, accessToken, cursor) {
+    const url = new URL('https://www.googleapis.com/youtube/v3/search')
+    url.searchParams.set('part', 'snippet')
+    url.searchParams.set('forMine', 'true')
+    url.searchParams.set('type', 'video')
+    url.searchParams.set('maxResults', String(this.pageSize))
+    url.searchParams.set('order', 'date')
+    if (cursor) url.searchParams.set('pageToken', cursor)
+
+    const response = await fetch(url.toString(), {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    })
+
+    if (!response.ok) {
+      throw new Error(`YouTube search failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return {
+      items: data.items || [],
+      nextCursor: data.nextPageToken || null,
+    }
+  },
+
+  async getDetails(accessToken, items) {
+    const videoIds = (items as YouTubeSearchItem[]).map((item) => item.id.videoId).join(',')
+
+    const response = await fetch(
+      `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics,contentDetails&id=${videoIds}`,
+      { headers: { 'Authorization': `Bearer ${accessToken}` } }
+    )
+
+    if (!response.ok) {
+      throw new Error(`YouTube videos.list failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return data.items || []
+  },
+
+  async refreshToken(tokens: PlatformTokens) {
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: Deno.env.get('YOUTUBE_CLIENT_ID')!,
+        client_secret: Deno.env.get('YOUTUBE_CLIENT_SECRET')!,
+        refresh_token: tokens.refresh_token!,
+        grant_type: 'refresh_token',
+      }),
+    })
+
+    const newTokens = await readRefreshResponse(response, (body) => body.error === 'invalid_grant')
+    if (!newTokens) return null
+
+    return {
+      ...tokens,
+      access_token: newTokens.access_token!,
+      expires_at: new Date(Date.now() + (newTokens.expires_in ?? 3600) * 1000).toISOString(),
+    }
+  },
+
+  mapToContentItem(item) {
+    const video = item as YouTubeVideo
+    const { snippet, statistics } = video
+
+    return {
+      platform_content_id: video.id,
+      data: {
+        title: snippet.title,
+        description: snippet.description,
+        thumbnail_url: snippet.thumbnails.high?.url || snippet.thumbnails.default.url,
+        content_url: `https://www.youtube.com/watch?v=${video.id}`,
+        content_type: 'video',
+        duration_seconds: parseDuration(video.contentDetails.duration),
+        views_count: parseInt(statistics.viewCount || '0'),
+        likes_count: parseInt(statistics.likeCount || '0'),
+        comments_count: parseInt(statistics.commentCount || '0'),
+        published_at: snippet.publishedAt,
+        tags: snippet.tags || [],
+        platform_category_id: snippet.categoryId ?? null,
+        canonical_url: `https://www.youtube.com/watch?v=${video.id}`,
+        embed_html: `<iframe width="560" height="315" src="https://www.youtube.com/embed/${video.id}" frameborder="0" allowfullscreen></iframe>`,
+        embed_cached_at: new Date().toISOString(),
+      },
+    }
+  },
+
+  async revokeToken(tokens: PlatformTokens) {
+    // Revoking the refresh token also invalidates its access tokens
+    const response = await fetch('https://oauth2.googleapis.com/revoke', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ token: tokens.refresh_token || tokens.access_token }),
+    })
+
+    return response.ok
+  },
+}
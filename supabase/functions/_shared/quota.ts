@@ -0,0 +1,161 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from './cors.ts'
+import type { ErrorResponse } from './types.ts'
+
+// Matches the CASE branches of consume_quota() / increment_quota()
+export type QuotaType = 'sync' | 'ai_analysis' | 'seo_submission' | 'social_account'
+
+export interface QuotaStatus {
+  quota_type: QuotaType
+  used: number
+  limit: number
+  remaining: number
+  // End of the billing cycle; null for social_account (not cycle-based)
+  resets_at: string | null
+}
+
+const QUOTA_LABELS: Record<QuotaType, string> = {
+  sync: 'Monthly sync',
+  ai_analysis: 'Monthly AI analysis',
+  seo_submission: 'Monthly SEO submission',
+  social_account: 'Connected account',
+}
+
+export class QuotaExceededError extends Error {
+  code = 'QUOTA_EXCEEDED'
+  status: QuotaStatus
+
+  constructor(status: QuotaStatus) {
+    super(`${QUOTA_LABELS[status.quota_type]} limit reached (${status.used}/${status.limit})`)
+    this.name = 'QuotaExceededError'
+    this.status = status
+  }
+}
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+/**
+ * Check and consume quota in one step (consume_quota() locks the subscription row).
+ * Throws QuotaExceededError when the tier limit would be exceeded; the attempt is
+ * still recorded in quota_usage_history.
+ */
+export async function consumeQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  quotaType: QuotaType,
+  options: { amount?: number; relatedEntityType?: string; relatedEntityId?: string } = {}
+): Promise<QuotaStatus> {
+  const { data, error } = await supabase.rpc('consume_quota', {
+    p_user_id: userId,
+    p_quota_type: quotaType,
+    p_amount: options.amount ?? 1,
+    p_related_entity_type: options.relatedEntityType ?? null,
+    p_related_entity_id: options.relatedEntityId ?? null,
+  })
+
+  if (error || !data || data.length === 0) {
+    throw new Error(error?.message || 'Failed to check quota')
+  }
+
+  const row = data[0]
+  const status: QuotaStatus = {
+    quota_type: quotaType,
+    used: row.used,
+    limit: row.max_value,
+    remaining: Math.max(0, row.max_value - row.used),
+    resets_at: quotaType === 'social_account' ? null : row.cycle_end,
+  }
+
+  if (!row.allowed) {
+    throw new QuotaExceededError(status)
+  }
+
+  return status
+}
+
+const USAGE_COLUMNS: Record<Exclude<QuotaType, 'social_account'>, [string, string]> = {
+  sync: ['syncs_used', 'max_syncs_per_month'],
+  ai_analysis: ['ai_analyses_used', 'max_ai_analyses_per_month'],
+  seo_submission: ['seo_submissions_used', 'max_seo_submissions_per_month'],
+}
+
+// Current usage without consuming anything, e.g. to size a batch before it starts
+export async function getQuotaStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  quotaType: Exclude<QuotaType, 'social_account'>
+): Promise<QuotaStatus> {
+  const [usedColumn, limitColumn] = USAGE_COLUMNS[quotaType]
+
+  const { data, error } = await supabase
+    .from('subscription')
+    .select(`${usedColumn}, cycle_end_date, subscription_tier(${limitColumn})`)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(error?.message || 'Subscription not found')
+  }
+
+  const row = data as unknown as {
+    cycle_end_date: string
+    subscription_tier: Record<string, number> | null
+  } & Record<string, unknown>
+  const used = Number(row[usedColumn]) || 0
+  const limit = row.subscription_tier?.[limitColumn] || 0
+
+  return {
+    quota_type: quotaType,
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    resets_at: row.cycle_end_date,
+  }
+}
+
+/**
+ * Give quota back when the operation it paid for did not happen
+ * (failed sync, deduplicated job, failed account connection). Accounts are
+ * counted live, so a social_account refund only balances the usage history.
+ */
+export async function refundQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  quotaType: QuotaType,
+  reason: string,
+  amount = 1
+): Promise<void> {
+  if (amount <= 0) return
+
+  const { error } = await supabase.rpc('decrement_quota', {
+    p_user_id: userId,
+    p_quota_type: quotaType,
+    p_amount: amount,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error(`Failed to refund ${quotaType} quota:`, error)
+  }
+}
+
+// 429 with the numbers the client needs to show an upgrade prompt
+export function quotaExceededResponse(error: QuotaExceededError): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        code: 'QUOTA_EXCEEDED',
+        message: error.message,
+        details: {
+          ...error.status,
+          upgrade_url: `${APP_BASE_URL}/pricing`,
+        },
+      },
+    } as ErrorResponse),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
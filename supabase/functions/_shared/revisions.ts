@@ -0,0 +1,75 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// content_revision.change_source values
+export type ChangeSource = 'platform_sync' | 'ai_generated' | 'ai_suggestion' | 'classification' | 'user_edit' | 'rollback'
+
+// content_item fields whose changes are recorded in content_revision
+export const TRACKED_FIELDS = ['title', 'description', 'seo_title', 'seo_description', 'category_code'] as const
+
+export type TrackedField = typeof TRACKED_FIELDS[number]
+
+export interface ContentRevisionInsert {
+  content_item_id: string
+  user_id: string
+  field_name: TrackedField
+  old_value: string | null
+  new_value: string | null
+  change_source: ChangeSource
+  change_reason?: string
+}
+
+export function isTrackedField(field: string): field is TrackedField {
+  return (TRACKED_FIELDS as readonly string[]).includes(field)
+}
+
+function toRevisionValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value)
+}
+
+/**
+ * Build content_revision rows for tracked fields that differ between `before` and `after`.
+ * Fields missing from `after` were not written and are skipped.
+ */
+export function diffRevisions(
+  contentItemId: string,
+  userId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  changeSource: ChangeSource,
+  changeReason?: string
+): ContentRevisionInsert[] {
+  const revisions: ContentRevisionInsert[] = []
+
+  for (const field of TRACKED_FIELDS) {
+    if (!(field in after)) continue
+
+    const oldValue = toRevisionValue(before[field])
+    const newValue = toRevisionValue(after[field])
+    if (oldValue === newValue) continue
+
+    revisions.push({
+      content_item_id: contentItemId,
+      user_id: userId,
+      field_name: field,
+      old_value: oldValue,
+      new_value: newValue,
+      change_source: changeSource,
+      change_reason: changeReason,
+    })
+  }
+
+  return revisions
+}
+
+// History is best-effort: a failed insert must not fail the sync/edit that caused it
+export async function recordRevisions(supabase: SupabaseClient, revisions: ContentRevisionInsert[]): Promise<void> {
+  if (revisions.length === 0) return
+
+  const { error } = await supabase
+    .from('content_revision')
+    .insert(revisions)
+
+  if (error) {
+    console.error('Failed to record content revisions:', error)
+  }
+}
@@ -0,0 +1,155 @@
+import type { SearchEngineCredentials, SearchEngineSubmitter, UrlSubmissionResult } from './types.ts'
+import { failedResults, isRetryableStatus, readResponseBody } from './http.ts'
+
+const DEFAULT_API_ENDPOINT = 'https://indexing.googleapis.com/v3'
+const DEFAULT_TOKEN_URL = 'https://oauth2.googleapis.com/token'
+const INDEXING_SCOPE = 'https://www.googleapis.com/auth/indexing'
+
+// Access tokens per service account, reused until shortly before they expire
+const tokenCache = new Map<string, { accessToken: string; expiresAt: number }>()
+
+class GoogleTokenError extends Error {
+  status: number
+
+  constructor(status: number) {
+    super(`Google token request failed: ${status}`)
+    this.name = 'GoogleTokenError'
+    this.status = status
+  }
+}
+
+// Malformed private key: retrying cannot help until the connection is fixed
+class GoogleCredentialsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GoogleCredentialsError'
+  }
+}
+
+function base64url(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function pemToDer(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+    .replace(/\\n/g, '')
+    .replace(/\s+/g, '')
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)).buffer
+}
+
+// Service account JWT exchanged for an access token (RFC 7523)
+async function getAccessToken(credentials: SearchEngineCredentials): Promise<string> {
+  const clientEmail = credentials.client_email!
+  const cached = tokenCache.get(clientEmail)
+  if (cached && cached.expiresAt > Date.now() + 60_000) {
+    return cached.accessToken
+  }
+
+  const tokenUrl = Deno.env.get('GOOGLE_TOKEN_URL') || credentials.token_uri || DEFAULT_TOKEN_URL
+  const issuedAt = Math.floor(Date.now() / 1000)
+
+  const unsigned = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64url(JSON.stringify({
+    iss: clientEmail,
+    scope: INDEXING_SCOPE,
+    aud: tokenUrl,
+    iat: issuedAt,
+    exp: issuedAt + 3600,
+  }))}`
+
+  let key: CryptoKey
+  try {
+    key = await crypto.subtle.importKey(
+      'pkcs8',
+      pemToDer(credentials.private_key!),
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+  } catch (error) {
+    throw new GoogleCredentialsError(
+      `Invalid service account private key: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  const signature = new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned)))
+
+  const response = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${base64url(signature)}`,
+    }),
+  })
+
+  if (!response.ok) {
+    console.error('Google token error:', await response.text())
+    throw new GoogleTokenError(response.status)
+  }
+
+  const data = await response.json()
+  tokenCache.set(clientEmail, {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (data.expires_in || 3600) * 1000,
+  })
+  return data.access_token
+}
+
+export const googleIndexingSubmitter: SearchEngineSubmitter = {
+  method: 'google_indexing_api',
+  displayName: 'Google Indexing API',
+
+  async submit(credentials, request) {
+    const endpoint = Deno.env.get('GOOGLE_INDEXING_ENDPOINT') ||
+      `${request.engine.api_endpoint || DEFAULT_API_ENDPOINT}/urlNotifications:publish`
+
+    if (!credentials.client_email || !credentials.private_key) {
+      return failedResults(request.urls, {}, 'Google service account credentials missing client_email or private_key', false)
+    }
+
+    let accessToken: string
+    try {
+      accessToken = await getAccessToken(credentials)
+    } catch (error) {
+      // Rejected or malformed credentials will not fix themselves; network errors might
+      const status = error instanceof GoogleTokenError ? error.status : null
+      return failedResults(
+        request.urls,
+        { client_email: credentials.client_email },
+        error instanceof Error ? error.message : String(error),
+        !(error instanceof GoogleCredentialsError) && isRetryableStatus(status),
+        status
+      )
+    }
+
+    // The publish endpoint takes one URL per request
+    const results: UrlSubmissionResult[] = []
+    for (const url of request.urls) {
+      const payload = { url, type: request.type }
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(payload),
+        })
+        const body = await readResponseBody(response)
+
+        results.push(response.ok
+          ? { url, ok: true, status: response.status, requestPayload: payload, responseBody: body, retryable: false }
+          : failedResults([url], payload, `Google Indexing API request failed: ${response.status}`, isRetryableStatus(response.status), response.status, body)[0])
+      } catch (error) {
+        console.error('Google Indexing API request error:', error)
+        results.push(failedResults([url], payload, error instanceof Error ? error.message : String(error), true)[0])
+      }
+    }
+
+    return results
+  },
+}
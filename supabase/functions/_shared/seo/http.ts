@@ -0,0 +1,31 @@
+import type { UrlSubmissionResult } from './types.ts'
+
+// Helpers shared by the submitters
+
+// Rate limits and server errors usually pass; 4xx means the request itself is wrong
+export function isRetryableStatus(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500
+}
+
+// Engines answer with JSON, plain text or nothing at all
+export async function readResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text) return null
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    return { text: text.substring(0, 2000) }
+  }
+}
+
+export function failedResults(
+  urls: string[],
+  requestPayload: Record<string, unknown>,
+  error: string,
+  retryable: boolean,
+  status: number | null = null,
+  responseBody: unknown = null
+): UrlSubmissionResult[] {
+  return urls.map((url) => ({ url, ok: false, status, requestPayload, responseBody, retryable, error }))
+}
@@ -0,0 +1,14 @@
+import type { SearchEngineSubmitter, SubmissionMethod } from './types.ts'
+import { indexNowSubmitter } from './indexnow.ts'
+import { googleIndexingSubmitter } from './google.ts'
+
+export type { SearchEngineCredentials, SearchEngineSubmitter, SubmissionMethod, UrlSubmissionResult } from './types.ts'
+
+const submitters: Record<SubmissionMethod, SearchEngineSubmitter> = {
+  indexnow: indexNowSubmitter,
+  google_indexing_api: googleIndexingSubmitter,
+}
+
+export function getSubmitter(method: string): SearchEngineSubmitter | null {
+  return submitters[method as SubmissionMethod] ?? null
+}
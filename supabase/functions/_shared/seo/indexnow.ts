@@ -0,0 +1,71 @@
+import type { SearchEngineSubmitter, UrlSubmissionResult } from './types.ts'
+import { failedResults, isRetryableStatus, readResponseBody } from './http.ts'
+
+// IndexNow endpoints per search_engine.slug; every participating engine shares submissions
+const INDEXNOW_ENDPOINTS: Record<string, string> = {
+  indexnow: 'https://api.indexnow.org/indexnow',
+  bing: 'https://www.bing.com/indexnow',
+}
+
+// Protocol limit per request
+const MAX_URLS_PER_REQUEST = 10000
+
+export const indexNowSubmitter: SearchEngineSubmitter = {
+  method: 'indexnow',
+  displayName: 'IndexNow',
+
+  async submit(credentials, request) {
+    const endpoint = Deno.env.get('INDEXNOW_ENDPOINT') ||
+      INDEXNOW_ENDPOINTS[request.engine.slug] ||
+      INDEXNOW_ENDPOINTS.indexnow
+
+    if (!credentials.key) {
+      return failedResults(request.urls, {}, 'IndexNow key missing from connection credentials', false)
+    }
+
+    // All URLs of one request must belong to the same host
+    const byHost = new Map<string, string[]>()
+    for (const url of request.urls) {
+      const host = new URL(url).host
+      byHost.set(host, [...(byHost.get(host) || []), url])
+    }
+
+    const results = new Map<string, UrlSubmissionResult>()
+
+    for (const [host, urls] of byHost) {
+      for (let start = 0; start < urls.length; start += MAX_URLS_PER_REQUEST) {
+        const urlList = urls.slice(start, start + MAX_URLS_PER_REQUEST)
+        const payload: Record<string, unknown> = {
+          host,
+          key: credentials.key,
+          ...(credentials.key_location ? { keyLocation: credentials.key_location } : {}),
+          urlList,
+        }
+
+        let batchResults: UrlSubmissionResult[]
+        try {
+          const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json; charset=utf-8' },
+            body: JSON.stringify(payload),
+          })
+          const body = await readResponseBody(response)
+
+          // 200 OK and 202 Accepted (key validation pending) both mean received
+          batchResults = response.ok
+            ? urlList.map((url) => ({ url, ok: true, status: response.status, requestPayload: payload, responseBody: body, retryable: false }))
+            : failedResults(urlList, payload, `IndexNow request failed: ${response.status}`, isRetryableStatus(response.status), response.status, body)
+        } catch (error) {
+          console.error('IndexNow request error:', error)
+          batchResults = failedResults(urlList, payload, error instanceof Error ? error.message : String(error), true)
+        }
+
+        for (const result of batchResults) {
+          results.set(result.url, result)
+        }
+      }
+    }
+
+    return request.urls.map((url) => results.get(url)!)
+  },
+}
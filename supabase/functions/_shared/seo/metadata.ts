@@ -0,0 +1,284 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Open Graph / Schema.org metadata for public pages, shared by get-seo-metadata
+// (JSON and HTML head fragments) and prerender (full pages for crawlers)
+
+export interface OpenGraphData {
+  'og:type': string
+  'og:title': string
+  'og:description': string
+  'og:image': string
+  'og:url': string
+  'og:site_name': string
+  'twitter:card': string
+  'twitter:title': string
+  'twitter:description': string
+  'twitter:image': string
+}
+
+export interface SchemaOrgData {
+  '@context': string
+  '@type': string
+  [key: string]: unknown
+}
+
+export interface SeoMetadata {
+  title: string
+  description: string
+  canonical_url: string
+  open_graph: OpenGraphData
+  schema_org: SchemaOrgData
+}
+
+// Columns selected by getContentMetadata(); prerender renders them field by field
+export interface ContentMetadataRow {
+  id: string
+  title: string | null
+  description: string | null
+  thumbnail_url: string | null
+  platform_url: string | null
+  views_count: number | null
+  likes_count: number | null
+  published_at: string | null
+  seo_title: string | null
+  seo_description: string | null
+  seo_keywords: string[] | null
+  duration_seconds: number | null
+  language: string | null
+  platform: { display_name: string } | null
+  social_account: {
+    account_name: string
+    user: { display_name: string | null; profile_slug: string | null; avatar_url: string | null } | null
+  } | null
+}
+
+// Columns selected by getCreatorMetadata()
+export interface CreatorMetadataRow {
+  id: string
+  display_name: string | null
+  bio: string | null
+  avatar_url: string | null
+  profile_slug: string | null
+  is_verified: boolean | null
+  total_followers_count: number | null
+  primary_category: string | null
+  website_url: string | null
+}
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+export function getBaseUrl(): string {
+  return APP_BASE_URL.replace(/\/$/, '')
+}
+
+/**
+ * Public content item with its creator and metadata; null when the item does
+ * not exist or is not public
+ */
+export async function getContentMetadata(
+  supabase: SupabaseClient,
+  id: string
+): Promise<{ content: ContentMetadataRow; seo: SeoMetadata } | null> {
+  const { data, error } = await supabase
+    .from('content_item')
+    .select(`
+      id,
+      title,
+      description,
+      thumbnail_url,
+      platform_url,
+      views_count,
+      likes_count,
+      published_at,
+      seo_title,
+      seo_description,
+      seo_keywords,
+      duration_seconds,
+      language,
+      platform:platform_id (
+        display_name
+      ),
+      social_account:social_account_id (
+        account_name,
+        user:user_id (
+          display_name,
+          profile_slug,
+          avatar_url
+        )
+      )
+    `)
+    .eq('id', id)
+    .eq('visibility', 'public')
+    .is('deleted_at', null)
+    .single()
+
+  if (error || !data) {
+    return null
+  }
+
+  // Embedded many-to-one relations are single objects at runtime
+  const content = data as unknown as ContentMetadataRow
+  const baseUrl = getBaseUrl()
+  const contentUrl = `${baseUrl}/content/${content.id}`
+  const title = content.seo_title || content.title || 'Untitled'
+  const description = content.seo_description || content.description || ''
+  const creator = content.social_account?.user
+
+  const openGraph: OpenGraphData = {
+    'og:type': 'video.other',
+    'og:title': title,
+    'og:description': description.substring(0, 200),
+    'og:image': content.thumbnail_url || '',
+    'og:url': contentUrl,
+    'og:site_name': 'StreamVibe',
+    'twitter:card': 'summary_large_image',
+    'twitter:title': title,
+    'twitter:description': description.substring(0, 200),
+    'twitter:image': content.thumbnail_url || '',
+  }
+
+  const schemaOrg: SchemaOrgData = {
+    '@context': 'https://schema.org',
+    '@type': 'VideoObject',
+    name: title,
+    description: description,
+    thumbnailUrl: content.thumbnail_url,
+    uploadDate: content.published_at,
+    duration: content.duration_seconds ? `PT${content.duration_seconds}S` : undefined,
+    interactionStatistic: [
+      {
+        '@type': 'InteractionCounter',
+        interactionType: 'https://schema.org/WatchAction',
+        userInteractionCount: content.views_count,
+      },
+      {
+        '@type': 'InteractionCounter',
+        interactionType: 'https://schema.org/LikeAction',
+        userInteractionCount: content.likes_count,
+      },
+    ],
+    author: creator
+      ? {
+        '@type': 'Person',
+        name: creator.display_name,
+        url: `${baseUrl}/creator/${creator.profile_slug}`,
+      }
+      : undefined,
+    url: contentUrl,
+  }
+
+  return {
+    content,
+    seo: { title, description, canonical_url: contentUrl, open_graph: openGraph, schema_org: schemaOrg },
+  }
+}
+
+/**
+ * Public creator profile by id or slug with its metadata; null when not found
+ */
+export async function getCreatorMetadata(
+  supabase: SupabaseClient,
+  lookup: { id?: string | null; slug?: string | null }
+): Promise<{ creator: CreatorMetadataRow; seo: SeoMetadata } | null> {
+  let query = supabase
+    .from('users')
+    .select(`
+      id,
+      display_name,
+      bio,
+      avatar_url,
+      profile_slug,
+      is_verified,
+      total_followers_count,
+      primary_category,
+      website_url
+    `)
+    .eq('is_public', true)
+
+  query = lookup.id ? query.eq('id', lookup.id) : query.eq('profile_slug', lookup.slug)
+
+  const { data, error } = await query.single()
+
+  if (error || !data) {
+    return null
+  }
+
+  const creator = data as unknown as CreatorMetadataRow
+
+  const creatorUrl = `${getBaseUrl()}/creator/${creator.profile_slug}`
+  const title = `${creator.display_name} - StreamVibe Creator`
+  const description = creator.bio || `Follow ${creator.display_name} on StreamVibe`
+
+  const openGraph: OpenGraphData = {
+    'og:type': 'profile',
+    'og:title': title,
+    'og:description': description.substring(0, 200),
+    'og:image': creator.avatar_url || '',
+    'og:url': creatorUrl,
+    'og:site_name': 'StreamVibe',
+    'twitter:card': 'summary',
+    'twitter:title': title,
+    'twitter:description': description.substring(0, 200),
+    'twitter:image': creator.avatar_url || '',
+  }
+
+  const schemaOrg: SchemaOrgData = {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: creator.display_name,
+    description: creator.bio,
+    image: creator.avatar_url,
+    url: creatorUrl,
+    sameAs: creator.website_url ? [creator.website_url] : [],
+    jobTitle: 'Content Creator',
+    knowsAbout: creator.primary_category,
+  }
+
+  return {
+    creator,
+    seo: { title, description, canonical_url: creatorUrl, open_graph: openGraph, schema_org: schemaOrg },
+  }
+}
+
+// Text and double-quoted attribute values
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// JSON inside <script>: no character may close the tag or start markup
+function escapeJsonForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+/**
+ * <head> fragment: title, description, canonical link, Open Graph (property=)
+ * and Twitter (name=) meta tags, and the Schema.org JSON-LD script.
+ * Every value is escaped; empty values are left out.
+ */
+export function renderHeadTags(seo: SeoMetadata): string {
+  const tags = [
+    `<title>${escapeHtml(seo.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(seo.description.substring(0, 300))}">`,
+    `<link rel="canonical" href="${escapeHtml(seo.canonical_url)}">`,
+  ]
+
+  for (const [key, value] of Object.entries(seo.open_graph)) {
+    if (!value) continue
+    const attribute = key.startsWith('twitter:') ? 'name' : 'property'
+    tags.push(`<meta ${attribute}="${escapeHtml(key)}" content="${escapeHtml(value)}">`)
+  }
+
+  tags.push(`<script type="application/ld+json">${escapeJsonForScript(seo.schema_org)}</script>`)
+
+  return tags.join('\n')
+}
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { indexNowSubmitter } from './indexnow.ts'
+import type { SearchEngine } from './types.ts'
+
+// Site-wide IndexNow pings for public pages, queued by the content_item and
+// users triggers (see queue_indexnow_ping()) and sent by the job-worker.
+// Separate from seo_submission, which uses each user's own connections.
+
+export interface PingSummary {
+  pinged: number
+  retrying: number
+  failed: number
+}
+
+// IndexNow keys: 8-128 characters, a-z, A-Z, 0-9 and dashes
+const INDEXNOW_KEY_PATTERN = /^[a-zA-Z0-9-]{8,128}$/
+
+// Protocol limit per request
+const MAX_PINGS_PER_FLUSH = 10000
+
+const RETRY_DELAY_MS = 5 * 60_000
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+// Every participating engine shares IndexNow submissions, so one endpoint is enough
+const SITE_ENGINE: SearchEngine = { id: 'site', slug: 'indexnow', api_endpoint: null }
+
+// The site's own key; null when unset or malformed
+export function getSiteIndexNowKey(): string | null {
+  const key = Deno.env.get('INDEXNOW_KEY')?.trim()
+  return key && INDEXNOW_KEY_PATTERN.test(key) ? key : null
+}
+
+/**
+ * Send every due ping in one IndexNow request. Without INDEXNOW_KEY nothing is
+ * claimed, so the queue waits until a key is configured. Retryable failures are
+ * queued again after RETRY_DELAY_MS; other failures are only recorded.
+ */
+export async function flushIndexNowPings(supabase: SupabaseClient): Promise<PingSummary> {
+  const summary: PingSummary = { pinged: 0, retrying: 0, failed: 0 }
+
+  const key = getSiteIndexNowKey()
+  if (!key) {
+    return summary
+  }
+
+  const { data: claimed, error } = await supabase.rpc('claim_indexnow_pings', {
+    p_limit: MAX_PINGS_PER_FLUSH,
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const paths = ((claimed || []) as { path: string }[]).map((row) => row.path)
+  if (paths.length === 0) {
+    return summary
+  }
+
+  const baseUrl = APP_BASE_URL.replace(/\/$/, '')
+  const results = await indexNowSubmitter.submit(
+    { key, key_location: Deno.env.get('INDEXNOW_KEY_LOCATION') || undefined },
+    { engine: SITE_ENGINE, urls: paths.map((path) => `${baseUrl}${path}`), type: 'URL_UPDATED' }
+  )
+
+  // One request, so every URL shares the same outcome
+  const result = results[0]
+  if (result.ok) {
+    summary.pinged = paths.length
+  } else if (result.retryable) {
+    summary.retrying = paths.length
+  } else {
+    summary.failed = paths.length
+  }
+
+  const { error: updateError } = await supabase
+    .from('indexnow_ping')
+    .update({
+      last_status: result.status,
+      last_error: result.ok ? null : result.error ?? null,
+      ...(!result.ok && result.retryable ? { next_ping_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() } : {}),
+    })
+    .in('path', paths)
+
+  if (updateError) {
+    console.error('Failed to record IndexNow ping results:', updateError)
+  }
+
+  return summary
+}
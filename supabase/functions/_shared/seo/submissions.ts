@@ -0,0 +1,254 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { refundQuota } from '../quota.ts'
+import { getSubmitter, type SearchEngineCredentials, type UrlSubmissionResult } from './index.ts'
+import { failedResults } from './http.ts'
+import type { SearchEngine, SubmissionType } from './types.ts'
+
+export interface QueueSubmissionsOptions {
+  // Explicit content; without it every public item changed since its last submission
+  contentIds?: string[]
+  // search_engine.slug filter, e.g. ['google']
+  engines?: string[]
+  max?: number
+}
+
+export interface SubmissionSummary {
+  processed: number
+  submitted: number
+  retrying: number
+  failed: number
+  has_more: boolean
+}
+
+export const MAX_SUBMISSIONS_PER_REQUEST = 100
+export const MAX_SUBMISSION_RETRIES = 5
+
+// Same priority as the retry jobs queued by enqueue_seo_submission_jobs()
+export const SUBMISSION_JOB_PRIORITY = 6
+
+// Due rows handled per call; the seo_submission job continues with the rest
+const PROCESS_BATCH_SIZE = 200
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+// 5 min, 20 min, 80 min, ~5 h, ~21 h
+export function nextRetryAt(retryCount: number): string {
+  const minutes = 5 * Math.pow(4, Math.max(0, retryCount - 1))
+  return new Date(Date.now() + minutes * 60_000).toISOString()
+}
+
+/**
+ * Create pending seo_submission rows for the user's public content on every
+ * active IndexNow / Google connection. Returns the number of rows queued.
+ */
+export async function queueSubmissions(
+  supabase: SupabaseClient,
+  userId: string,
+  options: QueueSubmissionsOptions = {}
+): Promise<number> {
+  const { data: queued, error } = await supabase.rpc('queue_seo_submissions', {
+    p_user_id: userId,
+    p_base_url: APP_BASE_URL,
+    p_content_ids: options.contentIds ?? null,
+    p_engine_slugs: options.engines ?? null,
+    p_max: options.max ?? MAX_SUBMISSIONS_PER_REQUEST,
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return queued || 0
+}
+
+// Best-effort: a failed usage insert must not fail the submission itself
+async function logUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  searchEngineId: string,
+  method: string,
+  urlsCount: number
+) {
+  const { data: subscription } = await supabase
+    .from('subscription')
+    .select('cycle_start_date, cycle_end_date')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('seo_usage')
+    .insert({
+      user_id: userId,
+      search_engine_id: searchEngineId,
+      operation_type: method,
+      urls_count: urlsCount,
+      billing_cycle_start: subscription?.cycle_start_date ?? now,
+      billing_cycle_end: subscription?.cycle_end_date ?? now,
+    })
+
+  if (error) {
+    console.error('Failed to log SEO usage:', error)
+  }
+}
+
+async function readCredentials(supabase: SupabaseClient, secretName: string): Promise<SearchEngineCredentials> {
+  const { data, error } = await supabase.rpc('vault_read', {
+    secret_name: secretName,
+  })
+
+  if (error || !data) {
+    throw new Error('Failed to retrieve search engine credentials')
+  }
+
+  return JSON.parse(data)
+}
+
+interface DueSubmission {
+  id: string
+  connection_id: string
+  submitted_url: string
+  submission_type: SubmissionType
+  submission_method: string
+  retry_count: number
+  seo_connection: { id: string; user_id: string; vault_secret_name: string; is_active: boolean }
+  search_engine: SearchEngine
+}
+
+/**
+ * Send the user's pending submissions and the failed ones whose retry is due,
+ * one request batch per connection. Accepted URLs become 'submitted'; failures
+ * are retried with backoff up to MAX_SUBMISSION_RETRIES, after which the
+ * seo_submission quota they were charged is refunded.
+ */
+export async function processDueSubmissions(
+  supabase: SupabaseClient,
+  userId: string,
+  limit = PROCESS_BATCH_SIZE
+): Promise<SubmissionSummary> {
+  const now = new Date().toISOString()
+
+  const { data: rows, error } = await supabase
+    .from('seo_submission')
+    .select(`
+      id, connection_id, submitted_url, submission_type, submission_method, retry_count,
+      seo_connection!inner(id, user_id, vault_secret_name, is_active),
+      search_engine(id, slug, api_endpoint)
+    `)
+    .eq('seo_connection.user_id', userId)
+    .or(`status.eq.pending,and(status.eq.failed,next_retry_at.lte."${now}")`)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw error
+  }
+
+  const due = (rows || []) as unknown as DueSubmission[]
+  const summary: SubmissionSummary = { processed: due.length, submitted: 0, retrying: 0, failed: 0, has_more: due.length === limit }
+
+  const byConnection = new Map<string, DueSubmission[]>()
+  for (const row of due) {
+    byConnection.set(row.connection_id, [...(byConnection.get(row.connection_id) || []), row])
+  }
+
+  for (const submissions of byConnection.values()) {
+    const { seo_connection: connection, search_engine: engine } = submissions[0]
+    const submitter = getSubmitter(submissions[0].submission_method)
+    const urls = submissions.map((submission) => submission.submitted_url)
+
+    let results: UrlSubmissionResult[]
+    if (!connection.is_active) {
+      results = failedResults(urls, {}, 'Search engine connection is inactive', false)
+    } else if (!submitter) {
+      results = failedResults(urls, {}, `Unsupported submission method: ${submissions[0].submission_method}`, false)
+    } else {
+      try {
+        const credentials = await readCredentials(supabase, connection.vault_secret_name)
+        // One type per batch; URL_DELETED rows go out in their own call
+        const byType = new Map<SubmissionType, string[]>()
+        for (const submission of submissions) {
+          byType.set(submission.submission_type, [...(byType.get(submission.submission_type) || []), submission.submitted_url])
+        }
+
+        results = []
+        for (const [type, typeUrls] of byType) {
+          results.push(...await submitter.submit(credentials, { engine, urls: typeUrls, type }))
+        }
+      } catch (credentialsError) {
+        // Credentials may be fixed by the user before the next attempt
+        const message = credentialsError instanceof Error ? credentialsError.message : String(credentialsError)
+        results = failedResults(urls, {}, message, true)
+      }
+    }
+
+    const resultsByUrl = new Map(results.map((result) => [result.url, result]))
+    let finalFailures = 0
+
+    for (const submission of submissions) {
+      const result = resultsByUrl.get(submission.submitted_url)!
+      const attemptedAt = new Date().toISOString()
+
+      if (result.ok) {
+        summary.submitted++
+        await supabase
+          .from('seo_submission')
+          .update({
+            status: 'submitted',
+            request_payload: result.requestPayload,
+            response_status: result.status,
+            response_body: result.responseBody,
+            error_message: null,
+            next_retry_at: null,
+            submitted_at: attemptedAt,
+          })
+          .eq('id', submission.id)
+        continue
+      }
+
+      const retryCount = submission.retry_count + 1
+      const willRetry = result.retryable && retryCount < MAX_SUBMISSION_RETRIES
+      if (willRetry) {
+        summary.retrying++
+      } else {
+        summary.failed++
+        finalFailures++
+      }
+
+      await supabase
+        .from('seo_submission')
+        .update({
+          status: 'failed',
+          request_payload: result.requestPayload,
+          response_status: result.status,
+          response_body: result.responseBody,
+          error_message: result.error ?? null,
+          retry_count: retryCount,
+          next_retry_at: willRetry ? nextRetryAt(retryCount) : null,
+        })
+        .eq('id', submission.id)
+    }
+
+    const accepted = results.filter((result) => result.ok).length
+    const firstError = results.find((result) => !result.ok)?.error ?? null
+
+    await supabase
+      .from('seo_connection')
+      .update({
+        last_error: accepted > 0 ? null : firstError,
+        ...(accepted > 0 ? { is_verified: true, last_verified_at: new Date().toISOString() } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', connection.id)
+
+    if (accepted > 0) {
+      await logUsage(supabase, userId, engine.id, submissions[0].submission_method, accepted)
+    }
+
+    if (finalFailures > 0) {
+      await refundQuota(supabase, userId, 'seo_submission', 'Search engine submission failed', finalFailures)
+    }
+  }
+
+  return summary
+}
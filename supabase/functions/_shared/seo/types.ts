@@ -0,0 +1,54 @@
+// seo_submission.submission_method values that have an implementation
+export type SubmissionMethod = 'indexnow' | 'google_indexing_api'
+
+// Google Indexing API notification types (seo_submission.submission_type)
+export type SubmissionType = 'URL_UPDATED' | 'URL_DELETED'
+
+// Shape of the JSON secret stored in Vault under seo_connection.vault_secret_name
+export interface SearchEngineCredentials {
+  // IndexNow: key served from the site root (or key_location)
+  key?: string
+  key_location?: string
+  // Google: service account with Indexing API access, owner of the site in Search Console
+  client_email?: string
+  private_key?: string
+  token_uri?: string
+  [key: string]: unknown
+}
+
+// search_engine row of the connection
+export interface SearchEngine {
+  id: string
+  slug: string
+  api_endpoint: string | null
+}
+
+export interface SubmissionRequest {
+  engine: SearchEngine
+  urls: string[]
+  type: SubmissionType
+}
+
+export interface UrlSubmissionResult {
+  url: string
+  ok: boolean
+  // HTTP status of the engine's answer; null when the request did not complete
+  status: number | null
+  requestPayload: Record<string, unknown>
+  responseBody: unknown
+  // Worth trying again later (network errors, 429, 5xx)
+  retryable: boolean
+  error?: string
+}
+
+/**
+ * One implementation per submission method; submissions.ts drives any submitter.
+ * Submitters only talk to the search engine - all database work lives there.
+ * Endpoints can be pointed at a local stub server through environment variables.
+ */
+export interface SearchEngineSubmitter {
+  method: SubmissionMethod
+  displayName: string
+  // One result per URL, in request order. Never throws for engine errors.
+  submit(credentials: SearchEngineCredentials, request: SubmissionRequest): Promise<UrlSubmissionResult[]>
+}
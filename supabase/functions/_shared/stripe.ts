@@ -0,0 +1,217 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Stripe helpers without the Stripe SDK - webhook signatures are verified with WebCrypto
+
+export interface StripeEvent<T = Record<string, unknown>> {
+  id: string
+  type: string
+  created: number
+  livemode: boolean
+  data: { object: T }
+}
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StripeSignatureError'
+  }
+}
+
+// Stripe's default tolerance for replayed events
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+const encoder = new TextEncoder()
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Build a Stripe-Signature header value (t=...,v1=...) for a raw payload.
+ * Used by the local fixture sender; Stripe signs `${timestamp}.${payload}`.
+ */
+export async function signStripePayload(
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${payload}`)
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Verify the Stripe-Signature header against the raw request body and return
+ * the parsed event. The body must be the exact text Stripe sent - re-serialized
+ * JSON will not match.
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): Promise<StripeEvent> {
+  if (!header) {
+    throw new StripeSignatureError('Missing Stripe-Signature header')
+  }
+
+  let timestamp = 0
+  const signatures: string[] = []
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2)
+    if (key === 't') timestamp = parseInt(value)
+    if (key === 'v1' && value) signatures.push(value)
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    throw new StripeSignatureError('Malformed Stripe-Signature header')
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    throw new StripeSignatureError('Stripe-Signature timestamp outside tolerance')
+  }
+
+  // Several v1 signatures are sent while a signing secret is being rolled
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`)
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+    throw new StripeSignatureError('No matching Stripe signature')
+  }
+
+  return JSON.parse(payload) as StripeEvent
+}
+
+/**
+ * Map a Stripe subscription status to a subscription_status slug
+ * Unknown (e.g. newly introduced) statuses fail closed to 'paused', which is not
+ * an active state, instead of granting the paid tier
+ */
+export function mapStripeStatus(status: string): string {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+    case 'past_due':
+    case 'canceled':
+    case 'paused':
+      return status
+    case 'unpaid':
+    case 'incomplete':
+      return 'past_due'
+    case 'incomplete_expired':
+      return 'canceled'
+    default:
+      console.warn(`Unknown Stripe subscription status: ${status}`)
+      return 'paused'
+  }
+}
+
+const STRIPE_API_BASE = 'https://api.stripe.com/v1'
+
+type StripeParams = Record<string, unknown>
+
+// Stripe expects form encoding with bracketed keys: line_items[0][price]=...
+function encodeStripeParams(params: StripeParams, prefix = '', form = new URLSearchParams()) {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue
+
+    const name = prefix ? `${prefix}[${key}]` : key
+    if (typeof value === 'object') {
+      encodeStripeParams(value as StripeParams, name, form)
+    } else {
+      form.append(name, String(value))
+    }
+  }
+  return form
+}
+
+/**
+ * Call the Stripe REST API with STRIPE_SECRET_KEY
+ */
+export async function stripeRequest<T = Record<string, unknown>>(
+  path: string,
+  params: StripeParams = {},
+  { method = 'POST', idempotencyKey }: { method?: 'GET' | 'POST'; idempotencyKey?: string } = {}
+): Promise<T> {
+  const secretKey = Deno.env.get('STRIPE_SECRET_KEY')
+  if (!secretKey) {
+    throw new Error('Missing STRIPE_SECRET_KEY')
+  }
+
+  const form = encodeStripeParams(params)
+  const url = method === 'GET' ? `${STRIPE_API_BASE}${path}?${form}` : `${STRIPE_API_BASE}${path}`
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    },
+    body: method === 'POST' ? form : undefined,
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(`Stripe ${path} failed: ${data.error?.message || response.status}`)
+  }
+  return data as T
+}
+
+/**
+ * Return the user's Stripe customer, creating it and storing it on the
+ * subscription row on first use. The webhook resolves users by this id.
+ */
+export async function getOrCreateStripeCustomer(
+  supabase: SupabaseClient,
+  user: { id: string; email?: string }
+): Promise<string> {
+  const { data: subscription, error } = await supabase
+    .from('subscription')
+    .select('id, stripe_customer_id')
+    .eq('user_id', user.id)
+    .single()
+
+  if (error || !subscription) {
+    throw new Error('Subscription not found for user')
+  }
+
+  if (subscription.stripe_customer_id) {
+    return subscription.stripe_customer_id
+  }
+
+  // Idempotency key keeps concurrent first calls from creating two customers
+  const customer = await stripeRequest<{ id: string }>(
+    '/customers',
+    { email: user.email, metadata: { user_id: user.id } },
+    { idempotencyKey: `customer-${user.id}` }
+  )
+
+  const { error: updateError } = await supabase
+    .from('subscription')
+    .update({ stripe_customer_id: customer.id, updated_at: new Date().toISOString() })
+    .eq('id', subscription.id)
+
+  if (updateError) throw updateError
+
+  return customer.id
+}
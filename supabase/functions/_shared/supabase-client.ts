@@ -1,4 +1,6 @@
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from './cors.ts'
+import type { ErrorResponse } from './types.ts'
 
 let _supabaseClient: SupabaseClient | null = null
 
@@ -27,18 +29,52 @@ export function getSupabaseClient(authToken?: string): SupabaseClient {
   return _supabaseClient
 }
 
+// Missing or rejected user token; functions answer it with authErrorResponse()
+export class AuthError extends Error {
+  code = 'UNAUTHORIZED'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
 export async function getAuthenticatedUser(req: Request, supabase: SupabaseClient) {
   const authHeader = req.headers.get('Authorization')
   if (!authHeader) {
-    throw new Error('Missing authorization header')
+    throw new AuthError('Missing authorization header')
   }
 
   const token = authHeader.replace('Bearer ', '')
   const { data: { user }, error } = await supabase.auth.getUser(token)
 
   if (error || !user) {
-    throw new Error('Invalid or expired token')
+    throw new AuthError('Invalid or expired token')
   }
 
   return user
 }
+
+// Functions are deployed with --no-verify-jwt, so token errors are answered here
+export function authErrorResponse(error: AuthError): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: { code: error.code, message: error.message },
+    } as ErrorResponse),
+    {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+// For internal endpoints (job-worker, cron) that must only be called with the service role key
+export function requireServiceRole(req: Request) {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+
+  if (!serviceKey || token !== serviceKey) {
+    throw new Error('Service role authorization required')
+  }
+}
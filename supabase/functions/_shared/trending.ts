@@ -0,0 +1,99 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Rows that aggregate every region (see refresh_trending_keywords())
+export const GLOBAL_REGION = 'GLOBAL'
+
+export const MAX_TRENDING_KEYWORDS = 100
+
+export interface TrendingKeyword {
+  keyword: string
+  category: string | null
+  trending_score: number
+  search_volume: number | null
+  source: string | null
+  region: string
+  language: string
+  valid_until: string
+}
+
+export interface TrendingKeywordQuery {
+  platformId?: string
+  region?: string
+  language?: string
+  category?: string
+  limit?: number
+}
+
+/**
+ * Current (not yet expired) trending keywords, highest score first.
+ * A region without rows falls back to GLOBAL; the returned region says which was used.
+ */
+export async function getTrendingKeywords(
+  supabase: SupabaseClient,
+  query: TrendingKeywordQuery = {}
+): Promise<{ region: string; keywords: TrendingKeyword[] }> {
+  const region = (query.region || GLOBAL_REGION).toUpperCase()
+  const limit = Math.min(Math.max(query.limit || 20, 1), MAX_TRENDING_KEYWORDS)
+
+  const fetchRegion = async (regionCode: string) => {
+    let request = supabase
+      .from('trending_keyword')
+      .select('keyword, category, trending_score, search_volume, source, region, language, valid_until')
+      .eq('region', regionCode)
+      .eq('language', (query.language || 'en').toLowerCase())
+      .gt('valid_until', new Date().toISOString())
+      .order('trending_score', { ascending: false })
+      .limit(limit)
+
+    if (query.platformId) {
+      request = request.eq('platform_id', query.platformId)
+    }
+    if (query.category) {
+      request = request.eq('category', query.category)
+    }
+
+    const { data, error } = await request
+    if (error) {
+      throw error
+    }
+    return (data || []) as TrendingKeyword[]
+  }
+
+  const keywords = await fetchRegion(region)
+  if (keywords.length > 0 || region === GLOBAL_REGION) {
+    return { region, keywords }
+  }
+
+  return { region: GLOBAL_REGION, keywords: await fetchRegion(GLOBAL_REGION) }
+}
+
+/**
+ * Trending keywords relevant to one content item: same platform and language,
+ * and either in the item's category or occurring in its title, description,
+ * tags or hashtags. Used to ground the tagging prompt in current trends.
+ */
+export async function matchTrendingKeywords(
+  supabase: SupabaseClient,
+  content: Record<string, unknown>,
+  limit = 10
+): Promise<string[]> {
+  const { keywords } = await getTrendingKeywords(supabase, {
+    platformId: typeof content.platform_id === 'string' ? content.platform_id : undefined,
+    language: typeof content.language === 'string' && content.language ? content.language : 'en',
+    limit: MAX_TRENDING_KEYWORDS,
+  })
+
+  const text = [
+    content.title,
+    content.description,
+    ...((content.tags as string[] | null) || []),
+    ...((content.hashtags as string[] | null) || []),
+  ].join(' ').toLowerCase()
+
+  return keywords
+    .filter((row) =>
+      (content.category_code && row.category === content.category_code) || text.includes(row.keyword)
+    )
+    .slice(0, limit)
+    .map((row) => row.keyword)
+}
@@ -129,7 +129,8 @@ export interface OAuthCallbackResponse {
 
 export interface ContentSyncRequest {
   social_account_id: string
-  force_full_sync?: boolean
+  force_full_sync?: boolean // Resume/start a backfill of the whole catalogue
+  mode?: 'sync' | 'async'
 }
 
 export interface ContentSyncResponse {
@@ -1,166 +1,188 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders, handleCors } from '../_shared/cors.ts'
-import { getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
 import type { ErrorResponse } from '../_shared/types.ts'
+import { generateAITags, type AITagRequest } from '../_shared/ai/tagging.ts'
+import { AIOutputValidationError } from '../_shared/ai/validation.ts'
+import { enqueueJob, isAsyncMode, jobAcceptedResponse } from '../_shared/jobs/queue.ts'
+import { consumeQuota, getQuotaStatus, QuotaExceededError, quotaExceededResponse, refundQuota } from '../_shared/quota.ts'
+import { type AIBatchRequest, createAIBatch, getAIBatchProgress, MAX_BATCH_ITEMS } from '../_shared/ai/batch.ts'
 
 console.log('AI tag generation function started')
 
-interface AITagRequest {
-  content_id: string
-  regenerate?: boolean // Force regenerate even if tags exist
+/**
+ * AI tags and suggestions for creator content
+ * POST { content_id, regenerate?, model?, mode? } tags one item (mode=async queues it)
+ * POST { batch: { social_account_id?, untagged_only?, published_since?, concurrency? }, model? }
+ *   queues every matching item (up to MAX_BATCH_ITEMS) through an ai_batch job
+ * GET ?batch_id=... aggregate progress of a batch; without batch_id lists recent batches
+ */
+
+interface AIGenerateTagsRequest extends Partial<AITagRequest> {
+  batch?: AIBatchRequest
 }
 
-interface AITagResponse {
-  success: boolean
-  content_id: string
-  tags_generated: number
-  seo_updated: boolean
+function invalidInput(message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: { code: 'INVALID_INPUT', message },
+    } as ErrorResponse),
+    {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
 }
 
 serve(async (req) => {
   const corsResponse = handleCors(req)
   if (corsResponse) return corsResponse
 
+  // Set once an analysis has been charged, so failures can refund it
+  let chargedUserId: string | null = null
+
   try {
     const supabase = getSupabaseClient()
     const user = await getAuthenticatedUser(req, supabase)
 
-    const body: AITagRequest = await req.json()
+    if (req.method === 'GET') {
+      const batchId = new URL(req.url).searchParams.get('batch_id')
 
-    if (!body.content_id) {
-      throw new Error('content_id is required')
-    }
+      if (!batchId) {
+        const { data: batches, error: batchesError } = await supabase
+          .from('ai_batch')
+          .select('id, social_account_id, is_untagged_only, published_since, status, total_items, created_at, completed_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(20)
 
-    // Get content item
-    const { data: content, error: contentError } = await supabase
-      .from('content_item')
-      .select('*')
-      .eq('id', body.content_id)
-      .eq('user_id', user.id)
-      .single()
+        if (batchesError) {
+          throw batchesError
+        }
 
-    if (contentError || !content) {
-      throw new Error('Content not found or access denied')
-    }
+        return new Response(
+          JSON.stringify({ success: true, batches: batches || [] }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
 
-    // Check if AI tags already exist (unless regenerate flag is set)
-    if (!body.regenerate) {
-      const { data: existingTags } = await supabase
-        .from('content_tag')
+      const { data: batch } = await supabase
+        .from('ai_batch')
         .select('id')
-        .eq('content_id', content.id)
-        .eq('source', 'ai_generated')
-        .limit(1)
-
-      if (existingTags && existingTags.length > 0) {
-        throw new Error('AI tags already generated. Use regenerate=true to force regeneration')
+        .eq('id', batchId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!batch) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: 'NOT_FOUND', message: 'Batch not found' },
+          }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
       }
-    }
 
-    const openaiKey = Deno.env.get('OPENAI_API_KEY')
-    if (!openaiKey) {
-      throw new Error('OpenAI API key not configured')
+      return new Response(
+        JSON.stringify({ success: true, batch: await getAIBatchProgress(supabase, batch.id) }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
     }
 
-    // Prepare prompt for GPT-4
-    const prompt = `Analyze this content and generate SEO-optimized tags and metadata:
-
-Title: ${content.title}
-Description: ${content.description || 'No description'}
-Platform: ${content.content_type}
+    const body: AIGenerateTagsRequest = await req.json()
 
-Generate a JSON response with:
-1. tags: Array of 10-15 relevant keywords/tags (single words or short phrases)
-2. tag_types: Map each tag to a type (keyword, topic, entity, emotion, trend)
-3. confidence_scores: Confidence score for each tag (0.0-1.0)
-4. seo_title: Optimized title (50-60 characters, include main keyword)
-5. seo_description: Meta description (150-160 characters, compelling, include keywords)
+    // Batch mode: quota is charged per item by the ai_batch dispatcher
+    if (body.batch) {
+      const batchRequest = body.batch
 
-Focus on discoverability, search intent, and relevance.`
-
-    // Call OpenAI GPT-4
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an SEO expert specializing in content tagging and metadata optimization. Always respond with valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-        response_format: { type: 'json_object' },
-      }),
-    })
+      if (batchRequest.published_since && isNaN(Date.parse(batchRequest.published_since))) {
+        return invalidInput('batch.published_since must be an ISO date')
+      }
 
-    if (!openaiResponse.ok) {
-      const errorData = await openaiResponse.text()
-      console.error('OpenAI API error:', errorData)
-      throw new Error('Failed to generate AI tags')
-    }
+      if (batchRequest.social_account_id) {
+        const { data: account } = await supabase
+          .from('social_account')
+          .select('id')
+          .eq('id', batchRequest.social_account_id)
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .maybeSingle()
+
+        if (!account) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: { code: 'NOT_FOUND', message: 'Social account not found' },
+            }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          )
+        }
+      }
 
-    const openaiData = await openaiResponse.json()
-    const aiResult = JSON.parse(openaiData.choices[0].message.content)
+      const quota = await getQuotaStatus(supabase, user.id, 'ai_analysis')
+      if (quota.remaining === 0) {
+        throw new QuotaExceededError(quota)
+      }
 
-    // Delete existing AI-generated tags if regenerating
-    if (body.regenerate) {
-      await supabase
-        .from('content_tag')
-        .delete()
-        .eq('content_id', content.id)
-        .eq('source', 'ai_generated')
+      const { progress, job } = await createAIBatch(supabase, user.id, batchRequest, body.model)
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: progress.total > 0 ? 'AI batch queued' : 'No content matches the batch filters',
+          batch: progress,
+          job_id: job?.job_id ?? null,
+          max_items: MAX_BATCH_ITEMS,
+          // Items beyond the remaining quota will be skipped
+          quota_remaining: quota.remaining,
+        }),
+        {
+          status: progress.total > 0 ? 202 : 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
     }
 
-    // Insert AI-generated tags
-    const tagInserts = aiResult.tags.map((tag: string, index: number) => ({
-      content_id: content.id,
-      tag: tag.toLowerCase(),
-      source: 'ai_generated',
-      confidence_score: aiResult.confidence_scores?.[index] || 0.85,
-      tag_type: aiResult.tag_types?.[index] || 'keyword',
-      created_by: user.id,
-    }))
-
-    const { error: tagError } = await supabase
-      .from('content_tag')
-      .insert(tagInserts)
-
-    if (tagError) {
-      console.error('Failed to insert tags:', tagError)
-      throw new Error('Failed to save AI-generated tags')
+    if (!body.content_id) {
+      return invalidInput('content_id or batch is required')
     }
 
-    // Update content with SEO metadata
-    const { error: updateError } = await supabase
-      .from('content_item')
-      .update({
-        seo_title: aiResult.seo_title,
-        seo_description: aiResult.seo_description,
-        ai_description: aiResult.seo_description, // Store AI description
-        updated_at: new Date().toISOString(),
+    await consumeQuota(supabase, user.id, 'ai_analysis', {
+      relatedEntityType: 'content_item',
+      relatedEntityId: body.content_id,
+    })
+    chargedUserId = user.id
+
+    // mode=async: hand off to job-worker and return immediately
+    if (isAsyncMode(req, body)) {
+      const job = await enqueueJob(supabase, user.id, 'ai_analysis', {
+        content_id: body.content_id,
+        regenerate: body.regenerate === true,
+        model: body.model,
+        prepaid_quota: 'ai_analysis',
       })
-      .eq('id', content.id)
 
-    if (updateError) {
-      console.error('Failed to update SEO metadata:', updateError)
+      // The already queued job was charged when it was created
+      if (!job.is_new) {
+        await refundQuota(supabase, user.id, 'ai_analysis', 'AI analysis already queued')
+      }
+      return jobAcceptedResponse(job, 'AI tag generation queued')
     }
 
-    const response: AITagResponse = {
-      success: true,
-      content_id: content.id,
-      tags_generated: tagInserts.length,
-      seo_updated: !updateError,
-    }
+    const response = await generateAITags(supabase, user.id, body as AITagRequest)
 
     return new Response(
       JSON.stringify(response),
@@ -171,8 +193,38 @@ Focus on discoverability, search intent, and relevance.`
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error)
+    }
+
     console.error('Error in ai-generate-tags:', error)
 
+    if (chargedUserId) {
+      await refundQuota(getSupabaseClient(), chargedUserId, 'ai_analysis', 'AI tag generation failed')
+    }
+
+    // Model output still invalid after the repair attempt
+    if (error instanceof AIOutputValidationError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { issues: error.issues },
+          },
+        } as ErrorResponse),
+        {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
     const errorResponse: ErrorResponse = {
       success: false,
       error: {
@@ -0,0 +1,141 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import {
+  applySuggestion,
+  isSuggestionField,
+  SUGGESTION_FIELDS,
+  suggestionValue,
+} from '../_shared/ai/suggestions.ts'
+
+console.log('Apply AI suggestion function started')
+
+/**
+ * Apply individual fields of an AI suggestion to the content item
+ * POST { suggestion_id, fields: ['seo_title' | 'seo_description' | 'category_code'], title_index? }
+ * title_index picks one of suggested_titles (default 0). Every applied field is
+ * recorded in ai_suggestion_application and content_revision.
+ */
+
+interface ApplySuggestionRequest {
+  suggestion_id: string
+  fields: string[]
+  title_index?: number
+}
+
+function invalidInput(message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: { code: 'INVALID_INPUT', message },
+    } as ErrorResponse),
+    {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const body: ApplySuggestionRequest = await req.json()
+    const titleIndex = body.title_index ?? 0
+
+    if (!body.suggestion_id) {
+      return invalidInput('suggestion_id is required')
+    }
+
+    if (!Array.isArray(body.fields) || body.fields.length === 0) {
+      return invalidInput(`fields must list at least one of: ${SUGGESTION_FIELDS.join(', ')}`)
+    }
+
+    const unknownField = body.fields.find((field) => !isSuggestionField(field))
+    if (unknownField) {
+      return invalidInput(`Field ${unknownField} cannot be applied`)
+    }
+
+    if (!Number.isInteger(titleIndex) || titleIndex < 0) {
+      return invalidInput('title_index must be a non-negative integer')
+    }
+
+    const { data: suggestion } = await supabase
+      .from('ai_suggestion')
+      .select('id, content_item_id, suggested_titles, suggested_description, suggested_category')
+      .eq('id', body.suggestion_id)
+      .single()
+
+    // Ownership is checked on the content item
+    const { data: content } = suggestion
+      ? await supabase
+        .from('content_item')
+        .select('id, title, description, seo_title, seo_description, category_code')
+        .eq('id', suggestion.content_item_id)
+        .eq('user_id', user.id)
+        .single()
+      : { data: null }
+
+    if (!suggestion || !content) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Suggestion not found' },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const fields = body.fields.filter(isSuggestionField)
+    const emptyField = fields.find((field) => suggestionValue(suggestion, field, titleIndex) === null)
+    if (emptyField) {
+      return invalidInput(`Suggestion has no value for ${emptyField}`)
+    }
+
+    const applied = await applySuggestion(supabase, user.id, suggestion, content, fields, titleIndex)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        suggestion_id: suggestion.id,
+        content_id: content.id,
+        applied,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in apply-ai-suggestion:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'APPLY_SUGGESTION_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to apply AI suggestion',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
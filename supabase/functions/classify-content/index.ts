@@ -0,0 +1,136 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { classifyContentItems } from '../_shared/classification.ts'
+import { enqueueJob, jobAcceptedResponse } from '../_shared/jobs/queue.ts'
+
+console.log('Classify content function started')
+
+/**
+ * (Re-)classify content into a leaf content_category
+ * POST { content_id | content_ids, force?, use_ai? } classifies up to 50 items right away
+ * POST { social_account_id?, force?, use_ai? } queues a content_classification job
+ *   for the account (or every account) and returns 202
+ * Platform hints and hashtags are tried first, the AI layer only when they are
+ * inconclusive (use_ai=false skips it). Each AI classification uses one
+ * ai_analysis quota; once it runs out the rest are classified without AI.
+ * Categories set by the creator are kept; force re-classifies automatically
+ * assigned ones.
+ */
+
+interface ClassifyContentRequest {
+  content_id?: string
+  content_ids?: string[]
+  social_account_id?: string
+  force?: boolean
+  use_ai?: boolean
+}
+
+const MAX_SYNC_ITEMS = 50
+
+function invalidInput(message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: { code: 'INVALID_INPUT', message },
+    } as ErrorResponse),
+    {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const body: ClassifyContentRequest = await req.json().catch(() => ({}))
+    const force = body.force === true
+    const useAI = body.use_ai !== false
+
+    const contentIds = body.content_ids ?? (body.content_id ? [body.content_id] : null)
+
+    if (contentIds) {
+      if (!Array.isArray(contentIds) || contentIds.length === 0 || contentIds.some((id) => typeof id !== 'string')) {
+        return invalidInput('content_ids must be a non-empty array of content ids')
+      }
+
+      if (contentIds.length > MAX_SYNC_ITEMS) {
+        return invalidInput(`At most ${MAX_SYNC_ITEMS} items can be classified per request; use social_account_id to classify a whole account`)
+      }
+
+      const results = await classifyContentItems(supabase, user.id, contentIds, { force, useAI })
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          classified: results.filter((result) => result.source && result.source !== 'user').length,
+          results,
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (body.social_account_id) {
+      const { data: account } = await supabase
+        .from('social_account')
+        .select('id')
+        .eq('id', body.social_account_id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!account) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: 'NOT_FOUND', message: 'Social account not found' },
+          }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+    }
+
+    const job = await enqueueJob(supabase, user.id, 'content_classification', {
+      ...(body.social_account_id ? { social_account_id: body.social_account_id } : {}),
+      ...(force ? { force: true } : {}),
+      ...(useAI ? {} : { use_ai: false }),
+    })
+
+    return jobAcceptedResponse(job, 'Content classification queued')
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in classify-content:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'CLASSIFY_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to classify content',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,90 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { getOrCreateStripeCustomer, stripeRequest } from '../_shared/stripe.ts'
+
+console.log('Create billing portal session function started')
+
+/**
+ * Open the Stripe customer portal (change plan, cancel, payment methods, invoices)
+ * Portal changes come back through stripe-webhook.
+ */
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+// Only redirect back into our own app
+function isAppUrl(url: string): boolean {
+  try {
+    return new URL(url).origin === new URL(APP_BASE_URL).origin
+  } catch {
+    return false
+  }
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const body: { return_url?: string } = await req.json().catch(() => ({}))
+    const returnUrl = body.return_url || `${APP_BASE_URL}/settings/billing`
+
+    if (!isAppUrl(returnUrl)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'return_url must point to the app' },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const customerId = await getOrCreateStripeCustomer(supabase, user)
+
+    const session = await stripeRequest<{ id: string; url: string }>('/billing_portal/sessions', {
+      customer: customerId,
+      return_url: returnUrl,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        url: session.url,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in create-billing-portal-session:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'BILLING_PORTAL_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create billing portal session',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
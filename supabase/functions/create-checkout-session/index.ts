@@ -0,0 +1,166 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { getOrCreateStripeCustomer, stripeRequest } from '../_shared/stripe.ts'
+
+console.log('Create checkout session function started')
+
+/**
+ * Start a Stripe Checkout session to upgrade to a paid subscription_tier
+ * The Stripe customer is stored on the user's subscription row; stripe-webhook
+ * applies the tier on checkout.session.completed.
+ */
+
+interface CheckoutRequest {
+  tier_slug: string
+  success_url?: string
+  cancel_url?: string
+}
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+// Only redirect back into our own app
+function isAppUrl(url: string): boolean {
+  try {
+    return new URL(url).origin === new URL(APP_BASE_URL).origin
+  } catch {
+    return false
+  }
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const body: CheckoutRequest = await req.json()
+
+    const successUrl = body.success_url ||
+      `${APP_BASE_URL}/settings/billing?checkout=success&session_id={CHECKOUT_SESSION_ID}`
+    const cancelUrl = body.cancel_url || `${APP_BASE_URL}/pricing`
+
+    if (!body.tier_slug || !isAppUrl(successUrl) || !isAppUrl(cancelUrl)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'tier_slug is required and redirect URLs must point to the app',
+          },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const { data: tier } = await supabase
+      .from('subscription_tier')
+      .select('id, slug, display_name, stripe_price_id, price_cents')
+      .eq('slug', body.tier_slug)
+      .eq('is_active', true)
+      .single()
+
+    if (!tier) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Plan not found' },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!tier.stripe_price_id || tier.price_cents <= 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'INVALID_INPUT', message: `${tier.display_name} plan cannot be purchased` },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // Plan changes for existing subscribers go through the billing portal
+    const { data: subscription } = await supabase
+      .from('subscription')
+      .select('stripe_subscription_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (subscription?.stripe_subscription_id) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'ALREADY_SUBSCRIBED',
+            message: 'You already have a paid subscription. Use the billing portal to change plans.',
+          },
+        } as ErrorResponse),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const customerId = await getOrCreateStripeCustomer(supabase, user)
+
+    const session = await stripeRequest<{ id: string; url: string }>('/checkout/sessions', {
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: user.id,
+      line_items: [{ price: tier.stripe_price_id, quantity: 1 }],
+      metadata: { user_id: user.id, tier: tier.slug },
+      subscription_data: { metadata: { user_id: user.id, tier: tier.slug } },
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        session_id: session.id,
+        url: session.url,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in create-checkout-session:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'CHECKOUT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create checkout session',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
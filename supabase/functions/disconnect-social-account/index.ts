@@ -0,0 +1,212 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { getAdapter } from '../_shared/platforms/index.ts'
+import { readTokens } from '../_shared/platforms/tokens.ts'
+
+console.log('Disconnect social account function started')
+
+/**
+ * Disconnect a connected YouTube / TikTok / Instagram account
+ * Applies the content action, soft-deletes the social_account and cancels its
+ * platform's queued syncs. The grant is revoked at the platform and the Vault
+ * secret deleted only when no other live account shares the OAuth connection.
+ * Accounts are never hard-deleted here: content_item rows keep referencing
+ * them (prevent_account_deletion_with_content + FK RESTRICT).
+ */
+
+interface DisconnectRequest {
+  social_account_id: string
+  // keep: leave content public, hide: set visibility private (default), delete: soft-delete content
+  content_action?: 'keep' | 'hide' | 'delete'
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const body: DisconnectRequest = await req.json()
+    const contentAction = body.content_action || 'hide'
+
+    if (!body.social_account_id || !['keep', 'hide', 'delete'].includes(contentAction)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'social_account_id is required and content_action must be keep, hide or delete',
+          },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const { data: account } = await supabase
+      .from('social_account')
+      .select('*')
+      .eq('id', body.social_account_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .single()
+
+    if (!account) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Social account not found' },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // Apply the content action
+    let contentAffected = 0
+
+    if (contentAction !== 'keep') {
+      const contentUpdate = contentAction === 'hide'
+        ? { visibility: 'private' }
+        : { deleted_at: new Date().toISOString(), deleted_reason: 'account_disconnected' }
+
+      const { data: affectedRows, error: contentError } = await supabase
+        .from('content_item')
+        .update(contentUpdate)
+        .eq('social_account_id', account.id)
+        .is('deleted_at', null)
+        .select('id')
+
+      if (contentError) {
+        throw contentError
+      }
+
+      contentAffected = affectedRows?.length || 0
+    }
+
+    const { error: accountError } = await supabase
+      .from('social_account')
+      .update({
+        is_active: false,
+        deleted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', account.id)
+
+    if (accountError) {
+      throw accountError
+    }
+
+    // Queued or running syncs for the platform would only fail on the disconnected account
+    const { data: cancelledJobs, error: jobsError } = await supabase
+      .from('job_queue')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('job_type', 'platform_sync')
+      .eq('params->>platform', account.platform)
+      .in('status', ['pending', 'processing'])
+      .select('id')
+
+    if (jobsError) {
+      console.error('Failed to cancel sync jobs:', jobsError)
+    }
+
+    // The grant and its tokens may be shared with other accounts of the same
+    // OAuth connection; only drop them with the last live one
+    let sharedAccounts = 0
+    if (account.connection_id || account.vault_key) {
+      const { count, error: sharedError } = await supabase
+        .from('social_account')
+        .select('id', { count: 'exact', head: true })
+        .or([
+          account.connection_id ? `connection_id.eq.${account.connection_id}` : null,
+          account.vault_key ? `vault_key.eq."${account.vault_key}"` : null,
+        ].filter(Boolean).join(','))
+        .is('deleted_at', null)
+
+      if (sharedError) {
+        throw sharedError
+      }
+
+      sharedAccounts = count || 0
+    }
+
+    // Revoke at the platform - best effort, the user may already have removed the app
+    let tokenRevoked = false
+    const adapter = getAdapter(account.platform)
+
+    if (sharedAccounts === 0 && adapter && account.vault_key) {
+      try {
+        const tokens = await readTokens(supabase, account.vault_key)
+        tokenRevoked = await adapter.revokeToken(tokens)
+      } catch (error) {
+        console.error(`Failed to revoke ${account.platform} token:`, error)
+      }
+
+      const { error: vaultError } = await supabase.rpc('vault_delete', {
+        secret_name: account.vault_key,
+      })
+
+      if (vaultError) {
+        console.error('Failed to delete vault secret:', vaultError)
+      }
+    }
+
+    // Deactivate the OAuth connection once no live account uses it
+    if (sharedAccounts === 0 && account.connection_id) {
+      await supabase
+        .from('platform_connection')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', account.connection_id)
+    }
+
+    await supabase.rpc('update_total_followers', { p_user_id: user.id })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        social_account_id: account.id,
+        platform: account.platform,
+        token_revoked: tokenRevoked,
+        content_action: contentAction,
+        content_affected: contentAffected,
+        jobs_cancelled: cancelledJobs?.length || 0,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in disconnect-social-account:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'DISCONNECT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to disconnect account',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
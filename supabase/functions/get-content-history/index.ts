@@ -0,0 +1,222 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { diffRevisions, isTrackedField, recordRevisions } from '../_shared/revisions.ts'
+
+console.log('Get content history function started')
+
+/**
+ * Field-level edit history for a creator's content item
+ * GET ?content_id=...&field=... lists content_revision rows, newest first
+ * POST { revision_id } rolls the field back to the revision's old_value
+ */
+
+interface RollbackRequest {
+  revision_id: string
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    if (req.method === 'POST') {
+      const body: RollbackRequest = await req.json()
+
+      if (!body.revision_id) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: 'INVALID_INPUT', message: 'revision_id is required' },
+          } as ErrorResponse),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+
+      const { data: revision } = await supabase
+        .from('content_revision')
+        .select('id, content_item_id, field_name, old_value, new_value, created_at')
+        .eq('id', body.revision_id)
+        .single()
+
+      // Ownership is checked on the content item, not the revision author
+      const { data: content } = revision
+        ? await supabase
+          .from('content_item')
+          .select('id, title, description, seo_title, seo_description, category_code')
+          .eq('id', revision.content_item_id)
+          .eq('user_id', user.id)
+          .single()
+        : { data: null }
+
+      if (!revision || !content) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: 'NOT_FOUND', message: 'Revision not found' },
+          }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+
+      if (!isTrackedField(revision.field_name)) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: 'INVALID_INPUT', message: `Field ${revision.field_name} cannot be rolled back` },
+          } as ErrorResponse),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+
+      const rollbackUpdate = { [revision.field_name]: revision.old_value }
+
+      const { error: updateError } = await supabase
+        .from('content_item')
+        .update({
+          ...rollbackUpdate,
+          // A creator-chosen category is never overwritten by classification
+          ...(revision.field_name === 'category_code' ? { category_source: 'user' } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', content.id)
+
+      if (updateError) {
+        throw updateError
+      }
+
+      await recordRevisions(supabase, diffRevisions(
+        content.id,
+        user.id,
+        content,
+        rollbackUpdate,
+        'rollback',
+        `Rollback of revision ${revision.id}`
+      ))
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          content_id: content.id,
+          field_name: revision.field_name,
+          value: revision.old_value,
+          rolled_back_revision_id: revision.id,
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const url = new URL(req.url)
+    const contentId = url.searchParams.get('content_id')
+    const field = url.searchParams.get('field')
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100) // Max 100
+    const offset = parseInt(url.searchParams.get('offset') || '0')
+
+    if (!contentId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'content_id is required' },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const { data: content } = await supabase
+      .from('content_item')
+      .select('id')
+      .eq('id', contentId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!content) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Content not found' },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    let historyQuery = supabase
+      .from('content_revision')
+      .select('id, field_name, old_value, new_value, change_source, change_reason, created_at', { count: 'exact' })
+      .eq('content_item_id', contentId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (field) {
+      historyQuery = historyQuery.eq('field_name', field)
+    }
+
+    const { data: revisions, error: historyError, count } = await historyQuery
+
+    if (historyError) {
+      throw historyError
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        content_id: contentId,
+        revisions: revisions || [],
+        pagination: {
+          total: count || 0,
+          limit,
+          offset,
+          has_more: offset + limit < (count || 0),
+        },
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in get-content-history:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'CONTENT_HISTORY_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to process content history request',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,203 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+
+console.log('Get content metrics function started')
+
+/**
+ * Daily metrics series and growth for a creator's content or social account
+ * GET ?content_id=...        -> content_metric_snapshot
+ * GET ?social_account_id=... -> account_metric_snapshot
+ * Optional: days (default 30, max 365)
+ */
+
+type Snapshot = Record<string, number | string>
+
+interface MetricGrowth {
+  start: number
+  end: number
+  delta: number
+  percent_change: number | null
+  avg_daily: number
+  last_7_days: number
+}
+
+const CONTENT_METRICS = ['views_count', 'likes_count', 'comments_count', 'shares_count']
+const ACCOUNT_METRICS = ['follower_count', 'content_count', ...CONTENT_METRICS]
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86_400_000)
+}
+
+// Value of the latest snapshot on or before `date`, falling back to the first one
+function valueAt(snapshots: Snapshot[], date: string, metric: string): number {
+  let value = Number(snapshots[0][metric]) || 0
+  for (const snapshot of snapshots) {
+    if (String(snapshot.snapshot_date) > date) break
+    value = Number(snapshot[metric]) || 0
+  }
+  return value
+}
+
+function buildGrowth(snapshots: Snapshot[], metrics: string[]): Record<string, MetricGrowth> {
+  const growth: Record<string, MetricGrowth> = {}
+  if (snapshots.length === 0) return growth
+
+  const first = snapshots[0]
+  const last = snapshots[snapshots.length - 1]
+  const spanDays = Math.max(daysBetween(String(first.snapshot_date), String(last.snapshot_date)), 1)
+  const weekAgo = new Date(new Date(String(last.snapshot_date)).getTime() - 7 * 86_400_000)
+    .toISOString()
+    .substring(0, 10)
+
+  for (const metric of metrics) {
+    const start = Number(first[metric]) || 0
+    const end = Number(last[metric]) || 0
+    const delta = end - start
+
+    growth[metric] = {
+      start,
+      end,
+      delta,
+      percent_change: start > 0 ? Math.round((delta / start) * 10000) / 100 : null,
+      avg_daily: Math.round((delta / spanDays) * 100) / 100,
+      last_7_days: end - valueAt(snapshots, weekAgo, metric),
+    }
+  }
+
+  return growth
+}
+
+// Attach day-over-day deltas to each point
+function buildSeries(snapshots: Snapshot[], metrics: string[]) {
+  return snapshots.map((snapshot, index) => {
+    const point: Record<string, number | string> = { date: snapshot.snapshot_date }
+    for (const metric of metrics) {
+      const value = Number(snapshot[metric]) || 0
+      point[metric] = value
+      point[`${metric}_delta`] = index === 0 ? 0 : value - (Number(snapshots[index - 1][metric]) || 0)
+    }
+    return point
+  })
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+    const url = new URL(req.url)
+
+    const contentId = url.searchParams.get('content_id')
+    const socialAccountId = url.searchParams.get('social_account_id')
+    const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '30'), 1), 365)
+
+    if (!contentId && !socialAccountId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'content_id or social_account_id is required' },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // Verify ownership before reading snapshots
+    const { data: owned } = contentId
+      ? await supabase
+        .from('content_item')
+        .select('id')
+        .eq('id', contentId)
+        .eq('user_id', user.id)
+        .single()
+      : await supabase
+        .from('social_account')
+        .select('id')
+        .eq('id', socialAccountId)
+        .eq('user_id', user.id)
+        .single()
+
+    if (!owned) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: contentId ? 'Content not found' : 'Social account not found',
+          },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const since = new Date(Date.now() - days * 86_400_000).toISOString().substring(0, 10)
+    const metrics = contentId ? CONTENT_METRICS : ACCOUNT_METRICS
+
+    const { data: snapshots, error: snapshotError } = contentId
+      ? await supabase
+        .from('content_metric_snapshot')
+        .select('snapshot_date, views_count, likes_count, comments_count, shares_count')
+        .eq('content_item_id', contentId)
+        .gte('snapshot_date', since)
+        .order('snapshot_date', { ascending: true })
+      : await supabase
+        .from('account_metric_snapshot')
+        .select('snapshot_date, follower_count, content_count, views_count, likes_count, comments_count, shares_count')
+        .eq('social_account_id', socialAccountId)
+        .gte('snapshot_date', since)
+        .order('snapshot_date', { ascending: true })
+
+    if (snapshotError) {
+      throw snapshotError
+    }
+
+    const rows = (snapshots || []) as Snapshot[]
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        scope: contentId ? 'content' : 'social_account',
+        id: contentId || socialAccountId,
+        days,
+        series: buildSeries(rows, metrics),
+        growth: buildGrowth(rows, metrics),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in get-content-metrics:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'METRICS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch metrics',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,166 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+
+console.log('Get job status function started')
+
+/**
+ * Job status polling API for the dashboard
+ * GET ?job_id=... returns one job with progress and its logs
+ * GET without job_id lists the user's jobs (filter by status / job_type)
+ */
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+    const url = new URL(req.url)
+
+    const jobId = url.searchParams.get('job_id')
+
+    if (!jobId) {
+      const status = url.searchParams.get('status')
+      const jobType = url.searchParams.get('job_type')
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100) // Max 100
+      const offset = parseInt(url.searchParams.get('offset') || '0')
+
+      const { data: jobs, error: jobsError } = await supabase.rpc('get_user_jobs', {
+        p_user_id: user.id,
+        p_status: status,
+        p_job_type: jobType,
+        p_limit: limit,
+        p_offset: offset,
+      })
+
+      if (jobsError) {
+        throw jobsError
+      }
+
+      const total = jobs?.[0]?.total_count || 0
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          jobs: (jobs || []).map(({ total_count: _total, ...job }: Record<string, unknown>) => job),
+          pagination: {
+            total,
+            limit,
+            offset,
+            has_more: offset + limit < total,
+          },
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('job_queue')
+      .select('id, job_type, status, progress_percent, progress_message, result, error_code, error_message, retry_count, max_retries, created_at, started_at, completed_at')
+      .eq('id', jobId)
+      .eq('user_id', user.id) // Security: only user's jobs
+      .single()
+
+    if (jobError || !job) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'JOB_NOT_FOUND', message: 'Job not found' },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const { data: logs, error: logsError } = await supabase.rpc('get_job_logs', {
+      p_job_id: jobId,
+      p_user_id: user.id,
+      p_log_level: url.searchParams.get('log_level'),
+      p_limit: Math.min(parseInt(url.searchParams.get('logs_limit') || '50'), 200),
+      p_offset: 0,
+    })
+
+    if (logsError) {
+      console.error('Error fetching job logs:', logsError)
+    }
+
+    // Estimate time remaining from the progress rate so far
+    let etaSeconds: number | null = null
+    if (job.status === 'processing' && job.started_at && job.progress_percent > 0) {
+      const elapsedSeconds = (Date.now() - new Date(job.started_at).getTime()) / 1000
+      etaSeconds = Math.round((elapsedSeconds / job.progress_percent) * (100 - job.progress_percent))
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job: {
+          id: job.id,
+          type: job.job_type,
+          status: job.status,
+          progress: {
+            percent: job.progress_percent,
+            message: job.progress_message,
+            eta_seconds: etaSeconds,
+          },
+          result: job.result,
+          error: job.error_message ? {
+            code: job.error_code,
+            message: job.error_message,
+          } : null,
+          retries: {
+            count: job.retry_count,
+            max: job.max_retries,
+          },
+          timestamps: {
+            created_at: job.created_at,
+            started_at: job.started_at,
+            completed_at: job.completed_at,
+          },
+        },
+        logs: (logs || []).map((log: Record<string, unknown>) => ({
+          id: log.log_id,
+          level: log.log_level,
+          message: log.message,
+          metadata: log.metadata,
+          created_at: log.created_at,
+        })),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in get-job-status:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'JOB_STATUS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch job status',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,101 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getSupabaseClient } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { getTrendingKeywords, GLOBAL_REGION } from '../_shared/trending.ts'
+
+console.log('Get trending keywords function started')
+
+/**
+ * PUBLIC ENDPOINT - No authentication required
+ * Current trending keywords per platform, region and language
+ * GET ?platform=youtube&region=US&language=en&category=gaming&limit=20
+ * region defaults to GLOBAL and falls back to it when the region has no rows.
+ * Refreshed every 6 hours by refresh_trending_keywords().
+ */
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    // NO AUTH CHECK - This is a public endpoint
+    const supabase = getSupabaseClient()
+    const url = new URL(req.url)
+
+    const platform = url.searchParams.get('platform')
+    const region = url.searchParams.get('region') || GLOBAL_REGION
+    const language = url.searchParams.get('language') || 'en'
+    const category = url.searchParams.get('category') || undefined
+    const limit = parseInt(url.searchParams.get('limit') || '20')
+
+    let platformId: string | undefined
+    if (platform) {
+      const { data: platformRow } = await supabase
+        .from('platform')
+        .select('id')
+        .eq('slug', platform)
+        .maybeSingle()
+
+      if (!platformRow) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: 'NOT_FOUND', message: `Unknown platform: ${platform}` },
+          }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        )
+      }
+      platformId = platformRow.id
+    }
+
+    const result = await getTrendingKeywords(supabase, {
+      platformId,
+      region,
+      language,
+      category,
+      limit: Number.isFinite(limit) ? limit : 20,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        platform,
+        region: result.region,
+        language: language.toLowerCase(),
+        keywords: result.keywords,
+        count: result.keywords.length,
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'Cache-Control': 'public, max-age=600',
+        },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in get-trending-keywords:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'TRENDING_KEYWORDS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to get trending keywords',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,186 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+
+console.log('Get usage function started')
+
+/**
+ * Current billing period usage for the creator's plan
+ * GET -> per-quota used/limit/remaining, plan, period and ai_usage cost breakdown
+ */
+
+interface QuotaUsage {
+  used: number
+  limit: number
+  remaining: number
+  percent_used: number
+}
+
+interface CostBucket {
+  requests: number
+  total_tokens: number
+  cost_cents: number
+}
+
+function quotaUsage(used: number, limit: number): QuotaUsage {
+  return {
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    percent_used: limit > 0 ? Math.min(100, Math.round((used / limit) * 1000) / 10) : 0,
+  }
+}
+
+function addToBucket(buckets: Map<string, CostBucket>, key: string, tokens: number, costCents: number) {
+  const bucket = buckets.get(key) || { requests: 0, total_tokens: 0, cost_cents: 0 }
+  bucket.requests += 1
+  bucket.total_tokens += tokens
+  bucket.cost_cents += costCents
+  buckets.set(key, bucket)
+}
+
+function bucketsToList(buckets: Map<string, CostBucket>, keyName: string) {
+  return Array.from(buckets.entries())
+    .map(([key, bucket]) => ({
+      [keyName]: key,
+      ...bucket,
+      cost_cents: Math.round(bucket.cost_cents * 100) / 100,
+    }))
+    .sort((a, b) => b.cost_cents - a.cost_cents)
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const { data: subscription, error: subscriptionError } = await supabase
+      .from('subscription')
+      .select('syncs_used, ai_analyses_used, seo_submissions_used, cycle_start_date, cycle_end_date, next_billing_date, is_auto_renew_enabled, subscription_tier(slug, display_name, max_social_accounts, max_syncs_per_month, max_ai_analyses_per_month, max_seo_submissions_per_month), subscription_status(slug, display_name)')
+      .eq('user_id', user.id)
+      .single()
+
+    if (subscriptionError || !subscription) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Subscription not found' },
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // Many-to-one embeds are single objects at runtime
+    const tier = subscription.subscription_tier as unknown as {
+      slug: string
+      display_name: string
+      max_social_accounts: number
+      max_syncs_per_month: number
+      max_ai_analyses_per_month: number
+      max_seo_submissions_per_month: number
+    }
+    const status = subscription.subscription_status as unknown as { slug: string; display_name: string } | null
+
+    const { count: socialAccounts } = await supabase
+      .from('social_account')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+
+    // AI cost breakdown for the current period
+    const { data: aiUsage, error: aiUsageError } = await supabase
+      .from('ai_usage')
+      .select('operation_type, total_tokens, cost_cents, ai_model(model_name), ai_provider(slug)')
+      .eq('user_id', user.id)
+      .gte('created_at', subscription.cycle_start_date)
+
+    if (aiUsageError) {
+      throw aiUsageError
+    }
+
+    const byOperation = new Map<string, CostBucket>()
+    const byModel = new Map<string, CostBucket>()
+    let totalCostCents = 0
+    let totalTokens = 0
+
+    for (const row of aiUsage || []) {
+      const tokens = row.total_tokens || 0
+      const costCents = Number(row.cost_cents) || 0
+      totalTokens += tokens
+      totalCostCents += costCents
+      const provider = row.ai_provider as unknown as { slug: string } | null
+      const model = row.ai_model as unknown as { model_name: string } | null
+      addToBucket(byOperation, row.operation_type, tokens, costCents)
+      addToBucket(byModel, `${provider?.slug || 'unknown'}/${model?.model_name || 'unknown'}`, tokens, costCents)
+    }
+
+    const periodEnd = new Date(subscription.cycle_end_date)
+    const daysRemaining = Math.max(0, Math.ceil((periodEnd.getTime() - Date.now()) / 86_400_000))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        plan: {
+          slug: tier.slug,
+          display_name: tier.display_name,
+          status: status?.slug || null,
+          is_auto_renew_enabled: subscription.is_auto_renew_enabled,
+        },
+        period: {
+          start: subscription.cycle_start_date,
+          end: subscription.cycle_end_date,
+          resets_at: subscription.cycle_end_date,
+          next_billing_date: subscription.next_billing_date,
+          days_remaining: daysRemaining,
+        },
+        quotas: {
+          sync: quotaUsage(subscription.syncs_used, tier.max_syncs_per_month),
+          ai_analysis: quotaUsage(subscription.ai_analyses_used, tier.max_ai_analyses_per_month),
+          seo_submission: quotaUsage(subscription.seo_submissions_used, tier.max_seo_submissions_per_month),
+          social_account: quotaUsage(socialAccounts || 0, tier.max_social_accounts),
+        },
+        ai_usage: {
+          requests: aiUsage?.length || 0,
+          total_tokens: totalTokens,
+          total_cost_cents: Math.round(totalCostCents * 100) / 100,
+          by_operation: bucketsToList(byOperation, 'operation_type'),
+          by_model: bucketsToList(byModel, 'model'),
+        },
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in get-usage:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'USAGE_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to get usage',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
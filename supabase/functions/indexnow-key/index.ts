@@ -0,0 +1,45 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getSiteIndexNowKey } from '../_shared/seo/pings.ts'
+
+console.log('IndexNow key function started')
+
+/**
+ * PUBLIC ENDPOINT - No authentication required
+ * Serve the IndexNow key verification file (the key as plain text)
+ * Route /{INDEXNOW_KEY}.txt on the site to this function: engines fetch the
+ * key from the host of the pinged URLs, or from INDEXNOW_KEY_LOCATION when set.
+ * A request for any other {key}.txt gets 404.
+ */
+
+function notFound(): Response {
+  return new Response('Not Found', {
+    status: 404,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain' },
+  })
+}
+
+serve((req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  // NO AUTH CHECK - This is a public endpoint
+  const key = getSiteIndexNowKey()
+  if (!key) {
+    return notFound()
+  }
+
+  const fileName = new URL(req.url).pathname.split('/').pop() || ''
+  if (fileName.endsWith('.txt') && fileName !== `${key}.txt`) {
+    return notFound()
+  }
+
+  return new Response(key, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=86400', // Cache for 24 hours
+    },
+  })
+})
@@ -0,0 +1,229 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getSupabaseClient, requireServiceRole } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { createJobContext, JobError } from '../_shared/jobs/context.ts'
+import { jobHandlers } from '../_shared/jobs/handlers.ts'
+import type { Job, JobType } from '../_shared/jobs/types.ts'
+import { flushIndexNowPings, type PingSummary } from '../_shared/seo/pings.ts'
+import { type QuotaType, refundQuota } from '../_shared/quota.ts'
+
+console.log('Job worker function started')
+
+/**
+ * INTERNAL ENDPOINT - Service role key required
+ * Drains public.job_queue: recovers stuck, expired and failed jobs, then claims
+ * pending jobs and dispatches each one to the handler for its job_type.
+ * Each run also sends the site-wide IndexNow pings that are due.
+ * Jobs whose endpoint charged quota up front (params.prepaid_quota) get it refunded
+ * once they have failed for good.
+ * Meant to be called on a schedule (e.g. pg_cron + pg_net every minute).
+ */
+
+interface JobWorkerRequest {
+  batch_size?: number
+  job_types?: JobType[]
+}
+
+interface ProcessedJob {
+  job_id: string
+  job_type: string
+  status: 'completed' | 'failed' | 'skipped'
+  error_code?: string
+}
+
+// Stop claiming new jobs well before the Edge Function wall-clock limit
+const TIME_BUDGET_MS = 45_000
+
+type FailedJob = Pick<Job, 'id' | 'user_id' | 'job_type' | 'params' | 'retry_count' | 'max_retries' | 'expires_at'>
+
+// retry_failed_jobs() skips jobs without retries left or past expires_at
+function isFinalFailure(job: FailedJob): boolean {
+  return job.retry_count >= job.max_retries || new Date(job.expires_at).getTime() <= Date.now()
+}
+
+async function refundPrepaidQuota(supabase: SupabaseClient, job: FailedJob, reason: string) {
+  const quotaType = job.params.prepaid_quota
+  if (typeof quotaType !== 'string') return
+
+  try {
+    await refundQuota(supabase, job.user_id, quotaType as QuotaType, reason)
+  } catch (refundError) {
+    console.error(`Failed to refund ${quotaType} quota for job ${job.id}:`, refundError)
+  }
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    requireServiceRole(req)
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: error instanceof Error ? error.message : 'Unauthorized' },
+      }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+
+  try {
+    const startedAt = Date.now()
+    const supabase = getSupabaseClient()
+    const workerId = `job-worker-${crypto.randomUUID()}`
+
+    const body: JobWorkerRequest = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const batchSize = Math.min(Math.max(body.batch_size || 10, 1), 50)
+
+    // Recover jobs before picking up new work
+    const { data: stuckJobs } = await supabase.rpc('detect_stuck_jobs')
+    const { data: expiredJobs } = await supabase.rpc('expire_stale_jobs')
+    const { data: retriedJobs } = await supabase.rpc('retry_failed_jobs')
+
+    // Expired jobs never run; stuck jobs without retries left are done too
+    const recoveredIds = [
+      ...(expiredJobs || []).map((row: { expired_job_id: string }) => row.expired_job_id),
+      ...(stuckJobs || []).map((row: { stuck_job_id: string }) => row.stuck_job_id),
+    ]
+    if (recoveredIds.length > 0) {
+      const { data: recoveredJobs } = await supabase
+        .from('job_queue')
+        .select('id, user_id, job_type, params, retry_count, max_retries, expires_at')
+        .in('id', recoveredIds)
+
+      for (const job of (recoveredJobs || []) as FailedJob[]) {
+        if (isFinalFailure(job)) {
+          await refundPrepaidQuota(supabase, job, `${job.job_type} job did not complete`)
+        }
+      }
+    }
+
+    // Best-effort: unsent pings stay queued for the next run
+    let indexNowPings: PingSummary | null = null
+    try {
+      indexNowPings = await flushIndexNowPings(supabase)
+    } catch (pingError) {
+      console.error('Failed to send IndexNow pings:', pingError)
+    }
+
+    // Highest priority (1) first, FIFO within a priority
+    let pendingQuery = supabase
+      .from('job_queue')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('scheduled_for', new Date().toISOString())
+      .order('job_priority', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(batchSize)
+
+    if (body.job_types && body.job_types.length > 0) {
+      pendingQuery = pendingQuery.in('job_type', body.job_types)
+    }
+
+    const { data: pendingJobs, error: pendingError } = await pendingQuery
+
+    if (pendingError) {
+      throw pendingError
+    }
+
+    const processed: ProcessedJob[] = []
+
+    for (const job of (pendingJobs || []) as Job[]) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) break
+
+      // start_job only succeeds while the job is still pending, so it doubles as the claim
+      const { data: claimed } = await supabase.rpc('start_job', {
+        p_job_id: job.id,
+        p_worker_id: workerId,
+      })
+
+      if (!claimed) {
+        processed.push({ job_id: job.id, job_type: job.job_type, status: 'skipped' })
+        continue
+      }
+
+      const ctx = createJobContext(supabase, job, workerId)
+
+      try {
+        const handler = jobHandlers[job.job_type]
+        if (!handler) {
+          throw new JobError('UNKNOWN_JOB_TYPE', `No handler registered for ${job.job_type}`, { retryable: false })
+        }
+
+        const result = await handler(ctx)
+
+        await supabase.rpc('complete_job', { p_job_id: job.id, p_result: result })
+        processed.push({ job_id: job.id, job_type: job.job_type, status: 'completed' })
+
+      } catch (error) {
+        const jobError = error instanceof JobError
+          ? error
+          : new JobError('JOB_ERROR', error instanceof Error ? error.message : 'Job failed')
+
+        console.error(`Job ${job.id} (${job.job_type}) failed:`, error)
+
+        await ctx.log('error', jobError.message, { code: jobError.code, retry_count: job.retry_count })
+        await supabase.rpc('fail_job', {
+          p_job_id: job.id,
+          p_error_message: jobError.message,
+          p_error_code: jobError.code,
+          p_error_details: jobError.details ?? null,
+        })
+
+        if (!jobError.retryable) {
+          await supabase.rpc('mark_job_not_retryable', { p_job_id: job.id })
+        }
+
+        if (!jobError.retryable || isFinalFailure(job)) {
+          await refundPrepaidQuota(supabase, job, `${job.job_type} job failed`)
+        }
+
+        processed.push({ job_id: job.id, job_type: job.job_type, status: 'failed', error_code: jobError.code })
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        worker_id: workerId,
+        maintenance: {
+          stuck: stuckJobs?.length || 0,
+          expired: expiredJobs?.length || 0,
+          retried: retriedJobs?.length || 0,
+          indexnow_pings: indexNowPings,
+        },
+        processed,
+        duration_ms: Date.now() - startedAt,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in job-worker:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'JOB_WORKER_ERROR',
+        message: error instanceof Error ? error.message : 'Job worker failed',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
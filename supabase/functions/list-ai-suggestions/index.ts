@@ -0,0 +1,137 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+
+console.log('List AI suggestions function started')
+
+/**
+ * AI suggestions awaiting the creator's review
+ * GET ?content_id=...&status=pending|applied|all&limit=&offset=
+ * Each suggestion includes the content item's current values and the fields already applied.
+ */
+
+const STATUSES = ['pending', 'applied', 'all']
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const url = new URL(req.url)
+    const contentId = url.searchParams.get('content_id')
+    const status = url.searchParams.get('status') || 'pending'
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100) // Max 100
+    const offset = parseInt(url.searchParams.get('offset') || '0')
+
+    if (!STATUSES.includes(status)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'INVALID_INPUT', message: `status must be one of: ${STATUSES.join(', ')}` },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // Ownership is checked through the content item
+    let suggestionQuery = supabase
+      .from('ai_suggestion')
+      .select(`
+        id, version, suggested_titles, suggested_description, suggested_tags, suggested_category,
+        trending_keywords, trending_hashtags, related_topics, target_audience, sentiment,
+        seo_score, trending_score, readability_score, confidence_score,
+        is_applied, applied_at, created_at,
+        ai_model(model_name, display_name),
+        content_item!inner(id, title, seo_title, seo_description, category_code, user_id),
+        ai_suggestion_application(field_name, applied_value, applied_at)
+      `, { count: 'exact' })
+      .eq('content_item.user_id', user.id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (contentId) {
+      suggestionQuery = suggestionQuery.eq('content_item_id', contentId)
+    }
+
+    if (status !== 'all') {
+      suggestionQuery = suggestionQuery.eq('is_applied', status === 'applied')
+    }
+
+    const { data, error: suggestionsError, count } = await suggestionQuery
+
+    if (suggestionsError) {
+      throw suggestionsError
+    }
+
+    // Many-to-one embeds are single objects at runtime
+    const suggestions = (data || []) as unknown as Array<Record<string, unknown> & {
+      ai_model: { model_name: string } | null
+      content_item: {
+        id: string
+        title: string | null
+        seo_title: string | null
+        seo_description: string | null
+        category_code: string | null
+      }
+      ai_suggestion_application: unknown[] | null
+    }>
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        suggestions: suggestions.map(({ content_item, ai_model, ai_suggestion_application, ...suggestion }) => ({
+          ...suggestion,
+          model: ai_model?.model_name || null,
+          content: {
+            id: content_item.id,
+            title: content_item.title,
+            seo_title: content_item.seo_title,
+            seo_description: content_item.seo_description,
+            category_code: content_item.category_code,
+          },
+          applications: ai_suggestion_application || [],
+        })),
+        pagination: {
+          total: count || 0,
+          limit,
+          offset,
+          has_more: offset + limit < (count || 0),
+        },
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    console.error('Error in list-ai-suggestions:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'LIST_SUGGESTIONS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to list AI suggestions',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,84 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getSupabaseClient } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+
+console.log('List plans function started')
+
+/**
+ * PUBLIC ENDPOINT - No authentication required
+ * Active subscription tiers with pricing and monthly limits
+ * Used by: Pricing page, Upgrade dialogs
+ */
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    // NO AUTH CHECK - This is a public endpoint
+    const supabase = getSupabaseClient()
+
+    const { data: tiers, error } = await supabase
+      .from('subscription_tier')
+      .select('id, slug, display_name, description, price_cents, currency, stripe_price_id, is_featured, sort_order, max_social_accounts, max_syncs_per_month, max_ai_analyses_per_month, max_seo_submissions_per_month')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    const plans = (tiers || []).map((tier) => ({
+      id: tier.id,
+      slug: tier.slug,
+      display_name: tier.display_name,
+      description: tier.description,
+      price_cents: tier.price_cents,
+      currency: tier.currency,
+      is_featured: tier.is_featured,
+      // Free tier and tiers not yet linked to a Stripe price cannot be checked out
+      is_purchasable: !!tier.stripe_price_id && tier.price_cents > 0,
+      limits: {
+        social_accounts: tier.max_social_accounts,
+        syncs_per_month: tier.max_syncs_per_month,
+        ai_analyses_per_month: tier.max_ai_analyses_per_month,
+        seo_submissions_per_month: tier.max_seo_submissions_per_month,
+      },
+    }))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        plans,
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'Cache-Control': 'public, max-age=600', // Cache for 10 minutes
+        },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in list-plans:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'LIST_PLANS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to list plans',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
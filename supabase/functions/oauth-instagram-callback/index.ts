@@ -2,6 +2,7 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders, handleCors } from '../_shared/cors.ts'
 import { getSupabaseClient } from '../_shared/supabase-client.ts'
 import type { ErrorResponse } from '../_shared/types.ts'
+import { consumeQuota, QuotaExceededError, refundQuota } from '../_shared/quota.ts'
 
 console.log('Instagram OAuth callback function started')
 
@@ -9,6 +10,9 @@ serve(async (req) => {
   const corsResponse = handleCors(req)
   if (corsResponse) return corsResponse
 
+  // Set once the account is charged, cleared when it is stored
+  let chargedUserId: string | null = null
+
   try {
     const supabase = getSupabaseClient()
     const url = new URL(req.url)
@@ -97,9 +101,24 @@ serve(async (req) => {
 
     const profile = await profileResponse.json()
 
+    // Check if account exists
+    const { data: existingAccount } = await supabase
+      .from('social_account')
+      .select('id, deleted_at')
+      .eq('user_id', stateData.user_id)
+      .eq('platform', 'instagram')
+      .eq('platform_user_id', instagramUserId)
+      .single()
+
+    // New (or previously disconnected) accounts count against max_social_accounts
+    if (!existingAccount || existingAccount.deleted_at) {
+      await consumeQuota(supabase, stateData.user_id, 'social_account')
+      chargedUserId = stateData.user_id
+    }
+
     // Store tokens in Vault
     const vaultKey = `instagram_tokens_${stateData.user_id}_${instagramUserId}`
-    await supabase.rpc('vault_insert', {
+    const { error: vaultError } = await supabase.rpc('vault_insert', {
       name: vaultKey,
       secret: JSON.stringify({
         access_token,
@@ -108,14 +127,10 @@ serve(async (req) => {
       }),
     })
 
-    // Check if account exists
-    const { data: existingAccount } = await supabase
-      .from('social_account')
-      .select('id')
-      .eq('user_id', stateData.user_id)
-      .eq('platform', 'instagram')
-      .eq('platform_user_id', instagramUserId)
-      .single()
+    if (vaultError) {
+      console.error('Vault storage error:', vaultError)
+      throw new Error('Failed to store tokens securely')
+    }
 
     const accountData = {
       handle: profile.username,
@@ -124,17 +139,17 @@ serve(async (req) => {
       total_content_count: profile.media_count || 0,
       vault_key: vaultKey,
       is_active: true,
+      deleted_at: null, // Reconnect after disconnect-social-account
       last_synced_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     }
 
-    if (existingAccount) {
-      await supabase
+    const { error: accountError } = existingAccount
+      ? await supabase
         .from('social_account')
         .update(accountData)
         .eq('id', existingAccount.id)
-    } else {
-      await supabase
+      : await supabase
         .from('social_account')
         .insert({
           user_id: stateData.user_id,
@@ -142,7 +157,12 @@ serve(async (req) => {
           platform_user_id: instagramUserId,
           ...accountData,
         })
+
+    if (accountError) {
+      console.error('Social account save error:', accountError)
+      throw new Error('Failed to save social account')
     }
+    chargedUserId = null
 
     await supabase.from('oauth_state').delete().eq('state', state)
     await supabase.rpc('update_total_followers', { p_user_id: stateData.user_id })
@@ -177,6 +197,11 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in oauth-instagram-callback:', error)
+
+    if (chargedUserId) {
+      await refundQuota(getSupabaseClient(), chargedUserId, 'social_account', 'Instagram connection failed')
+    }
+
     return new Response(
       `<!DOCTYPE html>
       <html>
@@ -185,7 +210,7 @@ serve(async (req) => {
         <p>${error instanceof Error ? error.message : 'An unknown error occurred'}</p>
       </body>
       </html>`,
-      { status: 500, headers: { 'Content-Type': 'text/html' } }
+      { status: error instanceof QuotaExceededError ? 429 : 500, headers: { 'Content-Type': 'text/html' } }
     )
   }
 })
@@ -1,6 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders, handleCors } from '../_shared/cors.ts'
-import { getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
 import type { OAuthInitResponse, ErrorResponse } from '../_shared/types.ts'
 
 console.log('Instagram OAuth init function started')
@@ -64,6 +64,10 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
     console.error('Error in oauth-instagram-init:', error)
 
     const errorResponse: ErrorResponse = {
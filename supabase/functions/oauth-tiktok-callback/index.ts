@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders, handleCors } from '../_shared/cors.ts'
 import { getSupabaseClient } from '../_shared/supabase-client.ts'
+import { consumeQuota, QuotaExceededError, refundQuota } from '../_shared/quota.ts'
 
 console.log('TikTok OAuth callback function started')
 
@@ -8,6 +9,9 @@ serve(async (req) => {
   const corsResponse = handleCors(req)
   if (corsResponse) return corsResponse
 
+  // Set once the account is charged, cleared when it is stored
+  let chargedUserId: string | null = null
+
   try {
     const supabase = getSupabaseClient()
     const url = new URL(req.url)
@@ -83,9 +87,23 @@ serve(async (req) => {
     const userData = await userResponse.json()
     const user = userData.data.user
 
+    const { data: existingAccount } = await supabase
+      .from('social_account')
+      .select('id, deleted_at')
+      .eq('user_id', stateData.user_id)
+      .eq('platform', 'tiktok')
+      .eq('platform_user_id', open_id)
+      .single()
+
+    // New (or previously disconnected) accounts count against max_social_accounts
+    if (!existingAccount || existingAccount.deleted_at) {
+      await consumeQuota(supabase, stateData.user_id, 'social_account')
+      chargedUserId = stateData.user_id
+    }
+
     // Store tokens in Vault
     const vaultKey = `tiktok_tokens_${stateData.user_id}_${open_id}`
-    await supabase.rpc('vault_insert', {
+    const { error: vaultError } = await supabase.rpc('vault_insert', {
       name: vaultKey,
       secret: JSON.stringify({
         access_token,
@@ -95,13 +113,10 @@ serve(async (req) => {
       }),
     })
 
-    const { data: existingAccount } = await supabase
-      .from('social_account')
-      .select('id')
-      .eq('user_id', stateData.user_id)
-      .eq('platform', 'tiktok')
-      .eq('platform_user_id', open_id)
-      .single()
+    if (vaultError) {
+      console.error('Vault storage error:', vaultError)
+      throw new Error('Failed to store tokens securely')
+    }
 
     const accountData = {
       handle: user.username || user.display_name,
@@ -112,20 +127,25 @@ serve(async (req) => {
       total_content_count: user.video_count || 0,
       vault_key: vaultKey,
       is_active: true,
+      deleted_at: null, // Reconnect after disconnect-social-account
       last_synced_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     }
 
-    if (existingAccount) {
-      await supabase.from('social_account').update(accountData).eq('id', existingAccount.id)
-    } else {
-      await supabase.from('social_account').insert({
+    const { error: accountError } = existingAccount
+      ? await supabase.from('social_account').update(accountData).eq('id', existingAccount.id)
+      : await supabase.from('social_account').insert({
         user_id: stateData.user_id,
         platform: 'tiktok',
         platform_user_id: open_id,
         ...accountData,
       })
+
+    if (accountError) {
+      console.error('Social account save error:', accountError)
+      throw new Error('Failed to save social account')
     }
+    chargedUserId = null
 
     await supabase.from('oauth_state').delete().eq('state', state)
     await supabase.rpc('update_total_followers', { p_user_id: stateData.user_id })
@@ -156,12 +176,17 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in oauth-tiktok-callback:', error)
+
+    if (chargedUserId) {
+      await refundQuota(getSupabaseClient(), chargedUserId, 'social_account', 'TikTok connection failed')
+    }
+
     return new Response(
       `<!DOCTYPE html><html><body style="text-align: center; margin-top: 100px;">
         <h1 style="color: #ef4444;">❌ Connection Failed</h1>
         <p>${error instanceof Error ? error.message : 'An unknown error occurred'}</p>
       </body></html>`,
-      { status: 500, headers: { 'Content-Type': 'text/html' } }
+      { status: error instanceof QuotaExceededError ? 429 : 500, headers: { 'Content-Type': 'text/html' } }
     )
   }
 })
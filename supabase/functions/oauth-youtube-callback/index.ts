@@ -2,6 +2,7 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders, handleCors } from '../_shared/cors.ts'
 import { getSupabaseClient } from '../_shared/supabase-client.ts'
 import type { ErrorResponse } from '../_shared/types.ts'
+import { consumeQuota, QuotaExceededError, refundQuota } from '../_shared/quota.ts'
 
 console.log('YouTube OAuth callback function started')
 
@@ -9,6 +10,9 @@ serve(async (req) => {
   const corsResponse = handleCors(req)
   if (corsResponse) return corsResponse
 
+  // Set once the account is charged, cleared when it is stored
+  let chargedUserId: string | null = null
+
   try {
     const supabase = getSupabaseClient()
     const url = new URL(req.url)
@@ -113,6 +117,21 @@ serve(async (req) => {
     const subscriberCount = parseInt(channel.statistics.subscriberCount || '0')
     const videoCount = parseInt(channel.statistics.videoCount || '0')
 
+    // Check if social account already exists
+    const { data: existingAccount } = await supabase
+      .from('social_account')
+      .select('id, deleted_at')
+      .eq('user_id', stateData.user_id)
+      .eq('platform', 'youtube')
+      .eq('platform_user_id', channelId)
+      .single()
+
+    // New (or previously disconnected) accounts count against max_social_accounts
+    if (!existingAccount || existingAccount.deleted_at) {
+      await consumeQuota(supabase, stateData.user_id, 'social_account')
+      chargedUserId = stateData.user_id
+    }
+
     // Store tokens in Vault (encrypted storage)
     const vaultKey = `youtube_tokens_${stateData.user_id}_${channelId}`
     const { error: vaultError } = await supabase.rpc('vault_insert', {
@@ -130,18 +149,9 @@ serve(async (req) => {
       throw new Error('Failed to store tokens securely')
     }
 
-    // Check if social account already exists
-    const { data: existingAccount } = await supabase
-      .from('social_account')
-      .select('id')
-      .eq('user_id', stateData.user_id)
-      .eq('platform', 'youtube')
-      .eq('platform_user_id', channelId)
-      .single()
-
-    if (existingAccount) {
-      // Update existing account
-      await supabase
+    // Update the existing account or create a new one
+    const { error: accountError } = existingAccount
+      ? await supabase
         .from('social_account')
         .update({
           handle: channelHandle,
@@ -152,13 +162,12 @@ serve(async (req) => {
           total_content_count: videoCount,
           vault_key: vaultKey,
           is_active: true,
+          deleted_at: null, // Reconnect after disconnect-social-account
           last_synced_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
         .eq('id', existingAccount.id)
-    } else {
-      // Create new social account
-      await supabase
+      : await supabase
         .from('social_account')
         .insert({
           user_id: stateData.user_id,
@@ -174,7 +183,12 @@ serve(async (req) => {
           is_active: true,
           last_synced_at: new Date().toISOString(),
         })
+
+    if (accountError) {
+      console.error('Social account save error:', accountError)
+      throw new Error('Failed to save social account')
     }
+    chargedUserId = null
 
     // Delete used state token
     await supabase
@@ -236,6 +250,10 @@ serve(async (req) => {
   } catch (error) {
     console.error('Error in oauth-youtube-callback:', error)
 
+    if (chargedUserId) {
+      await refundQuota(getSupabaseClient(), chargedUserId, 'social_account', 'YouTube connection failed')
+    }
+
     const errorResponse: ErrorResponse = {
       success: false,
       error: {
@@ -265,7 +283,7 @@ serve(async (req) => {
       </body>
       </html>`,
       {
-        status: 500,
+        status: error instanceof QuotaExceededError ? 429 : 500,
         headers: { 'Content-Type': 'text/html' },
       }
     )
@@ -0,0 +1,185 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getSupabaseClient } from '../_shared/supabase-client.ts'
+import {
+  escapeHtml,
+  getBaseUrl,
+  getContentMetadata,
+  getCreatorMetadata,
+  renderHeadTags,
+} from '../_shared/seo/metadata.ts'
+
+console.log('Prerender function started')
+
+/**
+ * PUBLIC ENDPOINT - No authentication required
+ * Full HTML page for crawlers that do not run JavaScript
+ * GET ?path=/content/:id | /creator/:slug
+ * The edge renderer routes bot requests for those pages here. The page carries
+ * the same head tags as get-seo-metadata?format=html plus the visible text:
+ * title, description and creator for content, bio and latest content for creators.
+ * Unknown or private pages get a noindex 404 page.
+ */
+
+// Latest public items linked from a creator page
+const CREATOR_CONTENT_LIMIT = 50
+
+const PATH_PATTERN = /^\/(content|creator)\/([^/]+)\/?$/
+
+function page(head: string, body: string, language = 'en'): string {
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${head}
+</head>
+<body>
+<header><a href="${escapeHtml(getBaseUrl())}/">StreamVibe</a></header>
+<main>
+${body}
+</main>
+</body>
+</html>`
+}
+
+function htmlResponse(html: string, status = 200): Response {
+  return new Response(html, {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/html; charset=utf-8',
+      ...(status === 200 ? { 'Cache-Control': 'public, max-age=3600' } : {}), // Cache for 1 hour
+    },
+  })
+}
+
+function notFoundPage(): Response {
+  return htmlResponse(
+    page(
+      '<title>Page not found - StreamVibe</title>\n<meta name="robots" content="noindex">',
+      '<h1>Page not found</h1>'
+    ),
+    404
+  )
+}
+
+// Only http(s) links and images; anything else (javascript:, data:) is dropped
+function httpUrl(value: string | null | undefined): string | null {
+  return value && /^https?:\/\//i.test(value) ? value : null
+}
+
+// Keeps the platform's line breaks
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+async function renderContent(supabase: SupabaseClient, id: string): Promise<Response> {
+  const result = await getContentMetadata(supabase, id)
+  if (!result) {
+    return notFoundPage()
+  }
+
+  const { content, seo } = result
+  const baseUrl = getBaseUrl()
+  const creator = content.social_account?.user
+  const thumbnailUrl = httpUrl(content.thumbnail_url)
+  const platformUrl = httpUrl(content.platform_url)
+  const details = [
+    creator?.profile_slug
+      ? `By <a href="${escapeHtml(`${baseUrl}/creator/${encodeURIComponent(creator.profile_slug)}`)}">${escapeHtml(creator.display_name || creator.profile_slug)}</a>`
+      : null,
+    content.published_at ? `<time datetime="${escapeHtml(content.published_at)}">${content.published_at.substring(0, 10)}</time>` : null,
+    content.views_count ? `${Number(content.views_count).toLocaleString('en-US')} views` : null,
+  ].filter(Boolean)
+
+  const body = `<article>
+<h1>${escapeHtml(seo.title)}</h1>
+${thumbnailUrl ? `<img src="${escapeHtml(thumbnailUrl)}" alt="${escapeHtml(seo.title)}">\n` : ''}${details.length > 0 ? `<p>${details.join(' · ')}</p>\n` : ''}${paragraphs(content.description || '')}
+${platformUrl ? `<p><a href="${escapeHtml(platformUrl)}" rel="nofollow noopener">Watch on ${escapeHtml(content.platform?.display_name || 'the original platform')}</a></p>` : ''}
+</article>`
+
+  return htmlResponse(page(renderHeadTags(seo), body, content.language || 'en'))
+}
+
+async function renderCreator(supabase: SupabaseClient, slug: string): Promise<Response> {
+  const result = await getCreatorMetadata(supabase, { slug })
+  if (!result) {
+    return notFoundPage()
+  }
+
+  const { creator, seo } = result
+  const baseUrl = getBaseUrl()
+  const avatarUrl = httpUrl(creator.avatar_url)
+  const websiteUrl = httpUrl(creator.website_url)
+  const name = creator.display_name || creator.profile_slug || slug
+
+  const { data: items, error } = await supabase
+    .from('content_item')
+    .select('id, title, seo_title, social_account!inner(user_id, deleted_at)')
+    .eq('social_account.user_id', creator.id)
+    .is('social_account.deleted_at', null)
+    .eq('visibility', 'public')
+    .is('deleted_at', null)
+    .order('published_at', { ascending: false })
+    .limit(CREATOR_CONTENT_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  const contentList = (items || []).map((item) =>
+    `<li><a href="${escapeHtml(`${baseUrl}/content/${item.id}`)}">${escapeHtml(item.seo_title || item.title || 'Untitled')}</a></li>`
+  )
+
+  const body = `<section>
+<h1>${escapeHtml(name)}</h1>
+${avatarUrl ? `<img src="${escapeHtml(avatarUrl)}" alt="${escapeHtml(name)}">\n` : ''}${paragraphs(creator.bio || '')}
+${websiteUrl ? `<p><a href="${escapeHtml(websiteUrl)}" rel="nofollow noopener">${escapeHtml(websiteUrl)}</a></p>\n` : ''}${contentList.length > 0 ? `<h2>Latest content</h2>\n<ul>\n${contentList.join('\n')}\n</ul>` : ''}
+</section>`
+
+  return htmlResponse(page(renderHeadTags(seo), body))
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    // NO AUTH CHECK - This is a public endpoint
+    const supabase = getSupabaseClient()
+    const path = new URL(req.url).searchParams.get('path') || ''
+    const match = path.match(PATH_PATTERN)
+
+    if (!match) {
+      return notFoundPage()
+    }
+
+    const [, type, key] = match
+    let decodedKey: string
+    try {
+      decodedKey = decodeURIComponent(key)
+    } catch {
+      return notFoundPage()
+    }
+
+    return type === 'content'
+      ? await renderContent(supabase, decodedKey)
+      : await renderCreator(supabase, decodedKey)
+
+  } catch (error) {
+    console.error('Error in prerender:', error)
+
+    // Crawlers retry 5xx later instead of indexing an error page
+    return htmlResponse(
+      page('<title>StreamVibe</title>\n<meta name="robots" content="noindex">', '<h1>Something went wrong</h1>'),
+      500
+    )
+  }
+})
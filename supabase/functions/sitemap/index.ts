@@ -1,4 +1,5 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders, handleCors } from '../_shared/cors.ts'
 import { getSupabaseClient } from '../_shared/supabase-client.ts'
 
@@ -6,104 +7,405 @@ console.log('Sitemap generator function started')
 
 /**
  * PUBLIC ENDPOINT - No authentication required
- * Generate XML sitemap for search engine crawlers
- * Returns sitemap.xml with all public content and creator profiles
+ * Generate XML sitemaps for search engine crawlers
+ * GET                               -> sitemap index listing every child sitemap
+ * GET ?type=pages                   -> homepage and static pages
+ * GET ?type=creators|content|categories[&after=cursor]
+ *                                   -> one page of SITEMAP_PAGE_SIZE URLs after the cursor
+ * Child sitemaps are keyset-paginated (get_sitemap_pages / get_sitemap_urls);
+ * lastmod is when the public page last changed, not the last metrics sync.
+ * Content URLs carry Google video entries (player from embed_html) and image
+ * entries for carousel media.
+ * Responses carry ETag / Last-Modified and answer conditional requests with 304.
  */
 
-serve(async (req) => {
-  const corsResponse = handleCors(req)
-  if (corsResponse) return corsResponse
+type EntityType = 'creators' | 'content' | 'categories'
 
-  try {
-    // NO AUTH CHECK - This is a public endpoint
-    const supabase = getSupabaseClient()
-    const baseUrl = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
-    
-    // Get all public creators
-    const { data: creators } = await supabase
-      .from('users')
-      .select('profile_slug, updated_at')
-      .eq('is_public', true)
-      .order('updated_at', { ascending: false })
-      .limit(5000) // Limit for performance
-
-    // Get all public content
-    const { data: content } = await supabase
+interface SitemapPage {
+  page: number
+  start_after: string | null
+  url_count: number
+  lastmod: string | null
+}
+
+interface SitemapEntry {
+  key: string
+  lastmod: string | null
+}
+
+interface ContentDetails {
+  id: string
+  title: string | null
+  description: string | null
+  seo_title: string | null
+  seo_description: string | null
+  thumbnail_url: string | null
+  duration_seconds: number | null
+  views_count: number | null
+  published_at: string | null
+  embed_html: string | null
+  content_media: { media_url: string; media_type: string; display_order: number }[] | null
+}
+
+// Well below the protocol's 50,000 URLs / 50 MB per sitemap
+const SITEMAP_PAGE_SIZE = 5000
+
+// PostgREST returns at most 1000 rows per call
+const FETCH_CHUNK_SIZE = 1000
+
+// Ids per content detail lookup; they travel in the URL as id=in.(...)
+const DETAIL_CHUNK_SIZE = 150
+
+const ENTITY_TYPES: EntityType[] = ['creators', 'content', 'categories']
+
+const ENTITY_PATHS: Record<EntityType, string> = {
+  creators: '/creator/',
+  content: '/content/',
+  categories: '/categories/',
+}
+
+const ENTITY_HINTS: Record<EntityType, { changefreq: string; priority: string }> = {
+  creators: { changefreq: 'weekly', priority: '0.8' },
+  content: { changefreq: 'monthly', priority: '0.6' },
+  categories: { changefreq: 'daily', priority: '0.7' },
+}
+
+const STATIC_PAGES = [
+  { path: '/browse/creators', priority: '0.9' },
+  { path: '/browse/content', priority: '0.9' },
+  { path: '/categories', priority: '0.8' },
+  { path: '/trending', priority: '0.9' },
+  { path: '/about', priority: '0.5' },
+  { path: '/privacy', priority: '0.3' },
+  { path: '/terms', priority: '0.3' },
+]
+
+const CONTENT_DETAIL_COLUMNS = `
+  id, title, description, seo_title, seo_description, thumbnail_url,
+  duration_seconds, views_count, published_at, embed_html,
+  content_media(media_url, media_type, display_order)
+`
+
+// Google video sitemap limits
+const MAX_VIDEO_DESCRIPTION_LENGTH = 2048
+const MAX_VIDEO_DURATION_SECONDS = 28800
+
+// Google reads at most 1,000 images per URL
+const MAX_IMAGES_PER_URL = 1000
+
+const VIDEO_NAMESPACE = 'xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"'
+const IMAGE_NAMESPACE = 'xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// W3C datetime without milliseconds, matching Last-Modified precision
+function formatLastmod(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
+
+function latest(dates: (string | null)[]): Date | null {
+  const times = dates.filter((date): date is string => !!date).map((date) => new Date(date).getTime())
+  return times.length > 0 ? new Date(Math.max(...times)) : null
+}
+
+function notFound(message: string): Response {
+  return new Response(message, {
+    status: 404,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain' },
+  })
+}
+
+async function fetchPages(supabase: SupabaseClient, type: EntityType): Promise<SitemapPage[]> {
+  const { data, error } = await supabase.rpc('get_sitemap_pages', {
+    p_type: type,
+    p_page_size: SITEMAP_PAGE_SIZE,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as SitemapPage[]
+}
+
+// One child sitemap: SITEMAP_PAGE_SIZE entries after the cursor, in chunks
+async function fetchEntries(supabase: SupabaseClient, type: EntityType, after: string | null): Promise<SitemapEntry[]> {
+  const entries: SitemapEntry[] = []
+  let cursor = after
+
+  while (entries.length < SITEMAP_PAGE_SIZE) {
+    const { data, error } = await supabase.rpc('get_sitemap_urls', {
+      p_type: type,
+      p_after: cursor,
+      p_limit: Math.min(FETCH_CHUNK_SIZE, SITEMAP_PAGE_SIZE - entries.length),
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const chunk = (data || []) as SitemapEntry[]
+    entries.push(...chunk)
+
+    if (chunk.length < FETCH_CHUNK_SIZE) break
+    cursor = chunk[chunk.length - 1].key
+  }
+
+  return entries
+}
+
+// Video/image fields for a page of content entries. Each chunk of keys is one
+// id range query, since the keys come sorted from get_sitemap_urls.
+async function fetchContentDetails(supabase: SupabaseClient, entries: SitemapEntry[]): Promise<Map<string, ContentDetails>> {
+  const details = new Map<string, ContentDetails>()
+
+  // Exact keys: an id range would also hold content the sitemap leaves out
+  // and the limit could cut off the end of the chunk
+  for (let start = 0; start < entries.length; start += DETAIL_CHUNK_SIZE) {
+    const ids = entries.slice(start, start + DETAIL_CHUNK_SIZE).map((entry) => entry.key)
+    const { data, error } = await supabase
       .from('content_item')
-      .select('id, updated_at, published_at')
+      .select(CONTENT_DETAIL_COLUMNS)
+      .in('id', ids)
       .eq('visibility', 'public')
       .is('deleted_at', null)
-      .order('published_at', { ascending: false })
-      .limit(10000) // Limit for performance
 
-    // Build sitemap XML
-    const sitemapUrls: string[] = []
+    if (error) {
+      throw error
+    }
+
+    for (const row of (data || []) as ContentDetails[]) {
+      details.set(row.id, row)
+    }
+  }
+
+  return details
+}
+
+// src of the embed iframe, e.g. https://www.youtube.com/embed/<id>
+function extractPlayerUrl(embedHtml: string | null): string | null {
+  const src = embedHtml?.match(/<iframe[^>]*\ssrc=["']([^"']+)["']/i)?.[1]
+  return src && src.startsWith('https://') ? src : null
+}
+
+// Google requires a thumbnail, title, description and a player or content URL
+function videoEntry(content: ContentDetails): string {
+  const playerUrl = extractPlayerUrl(content.embed_html)
+  if (!playerUrl || !content.thumbnail_url) return ''
+
+  const title = content.seo_title || content.title || 'Untitled'
+  const description = (content.seo_description || content.description || title).substring(0, MAX_VIDEO_DESCRIPTION_LENGTH)
+  const duration = content.duration_seconds && content.duration_seconds > 0 && content.duration_seconds <= MAX_VIDEO_DURATION_SECONDS
+    ? content.duration_seconds
+    : null
+
+  return `
+    <video:video>
+      <video:thumbnail_loc>${escapeXml(content.thumbnail_url)}</video:thumbnail_loc>
+      <video:title>${escapeXml(title)}</video:title>
+      <video:description>${escapeXml(description)}</video:description>
+      <video:player_loc>${escapeXml(playerUrl)}</video:player_loc>${duration ? `
+      <video:duration>${duration}</video:duration>` : ''}${content.published_at ? `
+      <video:publication_date>${formatLastmod(new Date(content.published_at))}</video:publication_date>` : ''}${content.views_count ? `
+      <video:view_count>${content.views_count}</video:view_count>` : ''}
+    </video:video>`
+}
 
-    // Add homepage
-    sitemapUrls.push(`
+// content_media only holds carousel/album children (Instagram)
+function imageEntries(content: ContentDetails): string {
+  return (content.content_media || [])
+    .filter((media) => media.media_type === 'image')
+    .sort((a, b) => a.display_order - b.display_order)
+    .slice(0, MAX_IMAGES_PER_URL)
+    .map((media) => `
+    <image:image>
+      <image:loc>${escapeXml(media.media_url)}</image:loc>
+    </image:image>`)
+    .join('')
+}
+
+async function buildIndex(supabase: SupabaseClient, baseUrl: string): Promise<{ xml: string; lastModified: Date | null }> {
+  const sitemaps: { loc: string; lastmod: Date | null }[] = []
+  let newestContent: Date | null = null
+
+  for (const type of ENTITY_TYPES) {
+    const pages = await fetchPages(supabase, type)
+    if (type === 'content') {
+      newestContent = latest(pages.map((page) => page.lastmod))
+    }
+
+    for (const page of pages) {
+      const cursor = page.start_after ? `&after=${encodeURIComponent(page.start_after)}` : ''
+      sitemaps.push({
+        loc: `${baseUrl}/sitemap.xml?type=${type}${cursor}`,
+        lastmod: page.lastmod ? new Date(page.lastmod) : null,
+      })
+    }
+  }
+
+  // Same lastmod as ?type=pages: the homepage shows the newest content
+  sitemaps.unshift({ loc: `${baseUrl}/sitemap.xml?type=pages`, lastmod: newestContent })
+
+  const lastModified = latest(sitemaps.map((sitemap) => sitemap.lastmod?.toISOString() ?? null))
+
+  const entries = sitemaps.map((sitemap) => `
+  <sitemap>
+    <loc>${escapeXml(sitemap.loc)}</loc>${sitemap.lastmod ? `
+    <lastmod>${formatLastmod(sitemap.lastmod)}</lastmod>` : ''}
+  </sitemap>`)
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries.join('')}
+</sitemapindex>`
+
+  return { xml, lastModified }
+}
+
+async function buildStaticPages(supabase: SupabaseClient, baseUrl: string): Promise<{ xml: string; lastModified: Date | null }> {
+  // The homepage shows the newest public content
+  const { data: newest } = await supabase
+    .from('content_item')
+    .select('page_modified_at')
+    .eq('visibility', 'public')
+    .is('deleted_at', null)
+    .order('page_modified_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const lastModified = newest ? new Date(newest.page_modified_at) : null
+
+  const urls = [`
   <url>
-    <loc>${baseUrl}</loc>
-    <lastmod>${new Date().toISOString().split('T')[0]}</lastmod>
+    <loc>${escapeXml(baseUrl)}</loc>${lastModified ? `
+    <lastmod>${formatLastmod(lastModified)}</lastmod>` : ''}
     <changefreq>daily</changefreq>
     <priority>1.0</priority>
-  </url>`)
-
-    // Add creator profiles
-    creators?.forEach((creator) => {
-      const lastmod = new Date(creator.updated_at).toISOString().split('T')[0]
-      sitemapUrls.push(`
-  <url>
-    <loc>${baseUrl}/creator/${creator.profile_slug}</loc>
-    <lastmod>${lastmod}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>0.8</priority>
-  </url>`)
-    })
+  </url>`]
 
-    // Add content items
-    content?.forEach((item) => {
-      const lastmod = new Date(item.updated_at).toISOString().split('T')[0]
-      sitemapUrls.push(`
+  STATIC_PAGES.forEach((page) => {
+    urls.push(`
   <url>
-    <loc>${baseUrl}/content/${item.id}</loc>
-    <lastmod>${lastmod}</lastmod>
+    <loc>${escapeXml(`${baseUrl}${page.path}`)}</loc>
     <changefreq>monthly</changefreq>
-    <priority>0.6</priority>
+    <priority>${page.priority}</priority>
   </url>`)
-    })
+  })
+
+  return { xml: urlset(urls), lastModified }
+}
 
-    // Add static pages
-    const staticPages = [
-      { path: '/browse/creators', priority: '0.9' },
-      { path: '/browse/content', priority: '0.9' },
-      { path: '/categories', priority: '0.8' },
-      { path: '/trending', priority: '0.9' },
-      { path: '/about', priority: '0.5' },
-      { path: '/privacy', priority: '0.3' },
-      { path: '/terms', priority: '0.3' },
-    ]
-
-    staticPages.forEach((page) => {
-      sitemapUrls.push(`
+async function buildEntityPage(
+  supabase: SupabaseClient,
+  baseUrl: string,
+  type: EntityType,
+  after: string | null
+): Promise<{ xml: string; lastModified: Date | null }> {
+  const entries = await fetchEntries(supabase, type, after)
+  const hints = ENTITY_HINTS[type]
+  const details = type === 'content' ? await fetchContentDetails(supabase, entries) : new Map<string, ContentDetails>()
+
+  const urls = entries.map((entry) => {
+    const content = details.get(entry.key)
+    return `
   <url>
-    <loc>${baseUrl}${page.path}</loc>
-    <changefreq>monthly</changefreq>
-    <priority>${page.priority}</priority>
-  </url>`)
-    })
+    <loc>${escapeXml(`${baseUrl}${ENTITY_PATHS[type]}${encodeURIComponent(entry.key)}`)}</loc>${entry.lastmod ? `
+    <lastmod>${formatLastmod(new Date(entry.lastmod))}</lastmod>` : ''}
+    <changefreq>${hints.changefreq}</changefreq>
+    <priority>${hints.priority}</priority>${content ? videoEntry(content) + imageEntries(content) : ''}
+  </url>`
+  })
 
-    // Generate full sitemap XML
-    const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${sitemapUrls.join('')}
+  const namespaces = type === 'content' ? [VIDEO_NAMESPACE, IMAGE_NAMESPACE] : []
+  return { xml: urlset(urls, namespaces), lastModified: latest(entries.map((entry) => entry.lastmod)) }
+}
+
+function urlset(urls: string[], namespaces: string[] = []): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset ${['xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"', ...namespaces].join(' ')}>
+${urls.join('')}
 </urlset>`
+}
+
+async function computeEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body))
+  const hex = Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `"${hex}"`
+}
+
+// If-None-Match wins over If-Modified-Since (RFC 9110)
+function isNotModified(req: Request, etag: string, lastModified: Date | null): boolean {
+  const ifNoneMatch = req.headers.get('If-None-Match')
+  if (ifNoneMatch) {
+    return ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)
+  }
+
+  const ifModifiedSince = req.headers.get('If-Modified-Since')
+  if (ifModifiedSince && lastModified) {
+    const since = new Date(ifModifiedSince).getTime()
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+  }
+
+  return false
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    // NO AUTH CHECK - This is a public endpoint
+    const supabase = getSupabaseClient()
+    const baseUrl = (Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com').replace(/\/$/, '')
+    const url = new URL(req.url)
+    const type = url.searchParams.get('type')
+    const after = url.searchParams.get('after')
+
+    let sitemap: { xml: string; lastModified: Date | null }
+    if (!type) {
+      sitemap = await buildIndex(supabase, baseUrl)
+    } else if (type === 'pages') {
+      sitemap = await buildStaticPages(supabase, baseUrl)
+    } else if (ENTITY_TYPES.includes(type as EntityType)) {
+      // Content cursors are uuids; anything else would make the query fail
+      if (after && type === 'content' && !UUID_PATTERN.test(after)) {
+        return notFound('Unknown sitemap cursor')
+      }
+      sitemap = await buildEntityPage(supabase, baseUrl, type as EntityType, after)
+    } else {
+      return notFound(`Unknown sitemap type: ${type}`)
+    }
+
+    const etag = await computeEtag(sitemap.xml)
+    const cacheHeaders: Record<string, string> = {
+      'ETag': etag,
+      'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+      ...(sitemap.lastModified ? { 'Last-Modified': sitemap.lastModified.toUTCString() } : {}),
+    }
+
+    if (isNotModified(req, etag, sitemap.lastModified)) {
+      return new Response(null, {
+        status: 304,
+        headers: { ...corsHeaders, ...cacheHeaders },
+      })
+    }
 
-    return new Response(sitemap, {
+    return new Response(sitemap.xml, {
       status: 200,
       headers: {
         ...corsHeaders,
+        ...cacheHeaders,
         'Content-Type': 'application/xml',
-        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
       },
     })
 
@@ -0,0 +1,51 @@
+/**
+ * Send a signed fixture event to a local stripe-webhook function
+ *
+ * deno run --allow-read --allow-env --allow-net \
+ *   supabase/functions/stripe-webhook/fixtures/send.ts checkout.session.completed <user_id> [--new-id]
+ *
+ * Signs with STRIPE_WEBHOOK_SECRET (same value as the function's env) and posts
+ * to WEBHOOK_URL (default http://localhost:54321/functions/v1/stripe-webhook).
+ * The fixture user id placeholder is replaced by <user_id>; --new-id gives the
+ * event a fresh id, otherwise re-sending exercises the idempotency check.
+ */
+import { signStripePayload } from '../../_shared/stripe.ts'
+
+const PLACEHOLDER_USER_ID = '00000000-0000-0000-0000-000000000000'
+
+const [fixtureName, userId] = Deno.args.filter((arg) => !arg.startsWith('--'))
+const newId = Deno.args.includes('--new-id')
+
+if (!fixtureName) {
+  console.error('Usage: send.ts <fixture> [user_id] [--new-id]')
+  Deno.exit(1)
+}
+
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET')
+if (!secret) {
+  console.error('STRIPE_WEBHOOK_SECRET is not set')
+  Deno.exit(1)
+}
+
+const url = Deno.env.get('WEBHOOK_URL') || 'http://localhost:54321/functions/v1/stripe-webhook'
+
+let payload = await Deno.readTextFile(new URL(`./${fixtureName}.json`, import.meta.url))
+if (userId) {
+  payload = payload.replaceAll(PLACEHOLDER_USER_ID, userId)
+}
+if (newId) {
+  const event = JSON.parse(payload)
+  event.id = `evt_test_${crypto.randomUUID().replaceAll('-', '')}`
+  payload = JSON.stringify(event)
+}
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': await signStripePayload(payload, secret),
+  },
+  body: payload,
+})
+
+console.log(response.status, await response.text())
@@ -0,0 +1,414 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getSupabaseClient } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { createNotification } from '../_shared/notifications.ts'
+import {
+  mapStripeStatus,
+  StripeSignatureError,
+  verifyStripeSignature,
+  type StripeEvent,
+} from '../_shared/stripe.ts'
+
+console.log('Stripe webhook function started')
+
+/**
+ * Stripe webhook receiver
+ * 1. Verify Stripe-Signature against the raw body (STRIPE_WEBHOOK_SECRET)
+ * 2. claim_stripe_webhook_event() - logs the event and lets one invocation process it;
+ *    processed events are acknowledged and skipped, events another invocation is
+ *    still processing get 409 so Stripe redelivers them later
+ * 3. Apply the event to public.subscription
+ * 4. mark_webhook_processed() - failures return 500 so Stripe redelivers
+ *
+ * Local testing: see stripe-webhook/fixtures/send.ts
+ */
+
+// Stripe sends ids either as strings or as expanded objects
+type StripeRef = string | { id: string } | null
+
+// Only the fields the handlers read
+interface StripeCheckoutSession {
+  id: string
+  mode?: string
+  client_reference_id?: string | null
+  customer?: StripeRef
+  subscription?: StripeRef
+  metadata?: Record<string, string> | null
+}
+
+interface StripeSubscriptionItem {
+  price?: { id: string; metadata?: Record<string, string> | null } | null
+  current_period_start?: number
+  current_period_end?: number
+}
+
+interface StripeSubscription {
+  id: string
+  status: string
+  customer?: StripeRef
+  metadata?: Record<string, string> | null
+  items?: { data?: StripeSubscriptionItem[] }
+  current_period_start?: number
+  current_period_end?: number
+  cancel_at_period_end?: boolean
+  canceled_at?: number | null
+  cancellation_details?: { reason?: string | null } | null
+}
+
+interface StripeInvoice {
+  id: string
+  customer?: StripeRef
+  subscription?: StripeRef
+  parent?: { subscription_details?: { subscription?: StripeRef } | null } | null
+  attempt_count?: number
+}
+
+const APP_BASE_URL = Deno.env.get('APP_BASE_URL') || 'https://streamvibe.com'
+
+function stripeId(value: StripeRef | undefined): string | null {
+  if (!value) return null
+  if (typeof value === 'string') return value
+  return value.id || null
+}
+
+function fromUnix(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null
+}
+
+async function getStatusId(supabase: SupabaseClient, slug: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('subscription_status')
+    .select('id')
+    .eq('slug', slug)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Subscription status not found: ${slug}`)
+  }
+  return data.id
+}
+
+async function getTierId(
+  supabase: SupabaseClient,
+  { priceId, slug }: { priceId?: string | null; slug?: string | null }
+): Promise<string | null> {
+  if (priceId) {
+    const { data } = await supabase
+      .from('subscription_tier')
+      .select('id')
+      .eq('stripe_price_id', priceId)
+      .maybeSingle()
+
+    if (data) return data.id
+  }
+
+  if (slug) {
+    const { data } = await supabase
+      .from('subscription_tier')
+      .select('id')
+      .eq('slug', slug)
+      .maybeSingle()
+
+    if (data) return data.id
+  }
+
+  return null
+}
+
+// Resolve our subscription row: Stripe subscription id, then customer id, then metadata.user_id
+async function findSubscription(
+  supabase: SupabaseClient,
+  { subscriptionId, customerId, userId }: {
+    subscriptionId?: string | null
+    customerId?: string | null
+    userId?: string | null
+  }
+): Promise<{ id: string; user_id: string } | null> {
+  const lookups: Array<[string, string | null | undefined]> = [
+    ['stripe_subscription_id', subscriptionId],
+    ['stripe_customer_id', customerId],
+    ['user_id', userId],
+  ]
+
+  for (const [column, value] of lookups) {
+    if (!value) continue
+
+    const { data } = await supabase
+      .from('subscription')
+      .select('id, user_id')
+      .eq(column, value)
+      .limit(1)
+      .maybeSingle()
+
+    if (data) return data
+  }
+
+  return null
+}
+
+async function handleCheckoutCompleted(supabase: SupabaseClient, session: StripeCheckoutSession) {
+  if (session.mode && session.mode !== 'subscription') return
+
+  const userId = session.client_reference_id || session.metadata?.user_id
+  if (!userId) {
+    throw new Error(`Checkout session ${session.id} has no user reference`)
+  }
+
+  // Only links the Stripe ids. Tier, status and period come from the
+  // customer.subscription.* events, which may arrive before this one.
+  const { error } = await supabase
+    .from('subscription')
+    .update({
+      stripe_customer_id: stripeId(session.customer),
+      stripe_subscription_id: stripeId(session.subscription),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+async function handleSubscriptionUpdated(supabase: SupabaseClient, stripeSubscription: StripeSubscription) {
+  const subscription = await findSubscription(supabase, {
+    subscriptionId: stripeSubscription.id,
+    customerId: stripeId(stripeSubscription.customer),
+    userId: stripeSubscription.metadata?.user_id,
+  })
+
+  if (!subscription) {
+    throw new Error(`No subscription found for ${stripeSubscription.id}`)
+  }
+
+  const item = stripeSubscription.items?.data?.[0]
+  const price = item?.price
+  const tierId = await getTierId(supabase, { priceId: price?.id, slug: price?.metadata?.tier })
+
+  // Newer API versions moved the billing period onto subscription items
+  const periodStart = stripeSubscription.current_period_start ?? item?.current_period_start
+  const periodEnd = stripeSubscription.current_period_end ?? item?.current_period_end
+
+  const { error } = await supabase
+    .from('subscription')
+    .update({
+      ...(tierId ? { tier_id: tierId } : {}),
+      status_id: await getStatusId(supabase, mapStripeStatus(stripeSubscription.status)),
+      stripe_customer_id: stripeId(stripeSubscription.customer),
+      stripe_subscription_id: stripeSubscription.id,
+      stripe_price_id: price?.id || null,
+      ...(periodStart ? { cycle_start_date: fromUnix(periodStart) } : {}),
+      ...(periodEnd ? { cycle_end_date: fromUnix(periodEnd), next_billing_date: fromUnix(periodEnd) } : {}),
+      is_auto_renew_enabled: !stripeSubscription.cancel_at_period_end,
+      canceled_at: fromUnix(stripeSubscription.canceled_at),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id)
+
+  if (error) throw error
+}
+
+// Canceled subscriptions fall back to the Free tier instead of losing access entirely
+async function handleSubscriptionDeleted(supabase: SupabaseClient, stripeSubscription: StripeSubscription) {
+  const subscription = await findSubscription(supabase, {
+    subscriptionId: stripeSubscription.id,
+    customerId: stripeId(stripeSubscription.customer),
+  })
+
+  if (!subscription) {
+    console.warn(`No subscription found for deleted ${stripeSubscription.id}`)
+    return
+  }
+
+  const freeTierId = await getTierId(supabase, { slug: 'free' })
+  if (!freeTierId) {
+    throw new Error('Free tier not found in subscription_tier table')
+  }
+
+  const { error } = await supabase
+    .from('subscription')
+    .update({
+      tier_id: freeTierId,
+      status_id: await getStatusId(supabase, 'active'),
+      stripe_subscription_id: null,
+      stripe_price_id: null,
+      next_billing_date: null,
+      is_auto_renew_enabled: false,
+      canceled_at: fromUnix(stripeSubscription.canceled_at) || new Date().toISOString(),
+      cancellation_reason: stripeSubscription.cancellation_details?.reason || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id)
+
+  if (error) throw error
+}
+
+async function handlePaymentFailed(supabase: SupabaseClient, invoice: StripeInvoice) {
+  const subscription = await findSubscription(supabase, {
+    subscriptionId: stripeId(invoice.subscription) ||
+      stripeId(invoice.parent?.subscription_details?.subscription),
+    customerId: stripeId(invoice.customer),
+  })
+
+  if (!subscription) {
+    console.warn(`No subscription found for invoice ${invoice.id}`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('subscription')
+    .update({
+      status_id: await getStatusId(supabase, 'past_due'),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id)
+
+  if (error) throw error
+
+  await createNotification(supabase, {
+    user_id: subscription.user_id,
+    type: 'error',
+    title: 'Payment failed',
+    message: 'We could not process your latest payment. Please update your billing details to keep your plan.',
+    action_url: `${APP_BASE_URL}/settings/billing`,
+    action_label: 'Update billing',
+    metadata: { invoice_id: invoice.id, attempt_count: invoice.attempt_count },
+    related_entity_type: 'subscription',
+    related_entity_id: subscription.id,
+  })
+}
+
+async function processEvent(supabase: SupabaseClient, event: StripeEvent) {
+  const object = event.data.object
+
+  // Other event types are only acknowledged; they stay logged in stripe_webhook_events
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(supabase, object as unknown as StripeCheckoutSession)
+      break
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(supabase, object as unknown as StripeSubscription)
+      break
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(supabase, object as unknown as StripeSubscription)
+      break
+    case 'invoice.payment_failed':
+      await handlePaymentFailed(supabase, object as unknown as StripeInvoice)
+      break
+  }
+
+  if (typeof object?.id === 'string') {
+    await supabase.rpc('invalidate_stripe_cache_from_webhook', {
+      p_event_type: event.type,
+      p_object_id: object.id,
+    })
+  }
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  let eventId: string | null = null
+
+  try {
+    const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET')
+    if (!webhookSecret) {
+      throw new Error('Missing STRIPE_WEBHOOK_SECRET')
+    }
+
+    // Signature covers the exact raw body
+    const payload = await req.text()
+
+    let event: StripeEvent
+    try {
+      event = await verifyStripeSignature(payload, req.headers.get('Stripe-Signature'), webhookSecret)
+    } catch (error) {
+      const message = error instanceof StripeSignatureError ? error.message : 'Invalid payload'
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'INVALID_SIGNATURE', message },
+        } as ErrorResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    const supabase = getSupabaseClient()
+
+    const { data: claim, error: claimError } = await supabase.rpc('claim_stripe_webhook_event', {
+      p_stripe_event_id: event.id,
+      p_event_type: event.type,
+      p_event_data: event,
+    })
+
+    if (claimError) throw claimError
+
+    // Redeliveries of processed events are acknowledged without side effects
+    if (claim === 'processed') {
+      return new Response(
+        JSON.stringify({ received: true, duplicate: true }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // A concurrent delivery is processing it; non-2xx makes Stripe try again later
+    if (claim !== 'claimed') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: { code: 'EVENT_IN_PROGRESS', message: `Event ${event.id} is already being processed` },
+        } as ErrorResponse),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    eventId = event.id
+    await processEvent(supabase, event)
+    await supabase.rpc('mark_webhook_processed', { p_stripe_event_id: event.id })
+
+    return new Response(
+      JSON.stringify({ received: true, event_type: event.type }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in stripe-webhook:', error)
+
+    const message = error instanceof Error ? error.message : 'Webhook processing failed'
+
+    if (eventId) {
+      await getSupabaseClient()
+        .rpc('mark_webhook_processed', { p_stripe_event_id: eventId, p_error_message: message })
+    }
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'WEBHOOK_ERROR',
+        message,
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
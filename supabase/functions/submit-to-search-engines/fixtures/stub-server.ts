@@ -0,0 +1,78 @@
+/**
+ * Local stand-in for IndexNow and the Google Indexing API
+ *
+ * deno run --allow-net --allow-env \
+ *   supabase/functions/submit-to-search-engines/fixtures/stub-server.ts [--indexnow=200] [--publish=200] [--token=200]
+ *
+ * Serves /indexnow, /token and /publish on PORT (default 8787); point
+ * INDEXNOW_ENDPOINT, GOOGLE_TOKEN_URL and GOOGLE_INDEXING_ENDPOINT at them
+ * (docs/BACKEND_IMPLEMENTATION.md, Local Stub Server). Each flag sets the status
+ * that endpoint answers with, e.g. --publish=429 to exercise retries.
+ * Every request is logged.
+ */
+
+export type StubEndpoint = 'indexnow' | 'token' | 'publish'
+
+export interface StubRequest {
+  endpoint: StubEndpoint
+  authorization: string | null
+  body: string
+}
+
+export const STUB_ACCESS_TOKEN = 'stub-access-token'
+
+/**
+ * Request handler answering each endpoint with statuses[endpoint]; statuses can
+ * be changed between requests. Received requests are appended to requests.
+ */
+export function createStubHandler(
+  statuses: Record<StubEndpoint, number>,
+  requests: StubRequest[] = []
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    const endpoint = new URL(req.url).pathname.replace(/^\//, '') as StubEndpoint
+    if (req.method !== 'POST' || !(endpoint in statuses)) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    requests.push({ endpoint, authorization: req.headers.get('Authorization'), body: await req.text() })
+
+    const status = statuses[endpoint]
+    if (status >= 400) {
+      return Response.json({ error: { code: status, message: `Stub ${endpoint} error` } }, { status })
+    }
+
+    // IndexNow answers with an empty body, Google with JSON
+    if (endpoint === 'indexnow') {
+      return new Response(null, { status })
+    }
+    if (endpoint === 'token') {
+      return Response.json({ access_token: STUB_ACCESS_TOKEN, expires_in: 3600, token_type: 'Bearer' }, { status })
+    }
+    return Response.json({ urlNotificationMetadata: { latestUpdate: { type: 'URL_UPDATED' } } }, { status })
+  }
+}
+
+if (import.meta.main) {
+  const statuses: Record<StubEndpoint, number> = { indexnow: 200, token: 200, publish: 200 }
+  for (const arg of Deno.args) {
+    const [, endpoint, status] = arg.match(/^--(indexnow|token|publish)=(\d{3})$/) || []
+    if (!endpoint) {
+      console.error('Usage: stub-server.ts [--indexnow=200] [--publish=200] [--token=200]')
+      Deno.exit(1)
+    }
+    statuses[endpoint as StubEndpoint] = Number(status)
+  }
+
+  const requests: StubRequest[] = []
+  const handler = createStubHandler(statuses, requests)
+  const port = Number(Deno.env.get('PORT') || 8787)
+
+  Deno.serve({ port }, async (req) => {
+    const received = requests.length
+    const response = await handler(req)
+    const body = requests.length > received ? requests[received].body.substring(0, 500) : ''
+    console.log(response.status, req.method, new URL(req.url).pathname, body)
+    return response
+  })
+}
@@ -0,0 +1,154 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { AuthError, authErrorResponse, getSupabaseClient, getAuthenticatedUser } from '../_shared/supabase-client.ts'
+import type { ErrorResponse } from '../_shared/types.ts'
+import { enqueueJob, isAsyncMode, jobAcceptedResponse } from '../_shared/jobs/queue.ts'
+import { consumeQuota, getQuotaStatus, QuotaExceededError, quotaExceededResponse, refundQuota } from '../_shared/quota.ts'
+import {
+  MAX_SUBMISSIONS_PER_REQUEST,
+  processDueSubmissions,
+  queueSubmissions,
+  SUBMISSION_JOB_PRIORITY,
+} from '../_shared/seo/submissions.ts'
+
+console.log('Submit to search engines function started')
+
+/**
+ * Submit public content URLs to the user's search engine connections
+ * POST { content_ids?, engines?, mode? }
+ *   content_ids: explicit items; without it every public item whose page
+ *   changed since its last successful submission (metric syncs do not count).
+ *   engines: search_engine slugs to limit to.
+ * IndexNow-capable engines (indexnow, bing) get one batched request per
+ * connection, Google one Indexing API call per URL. One seo_submission quota
+ * per URL and engine, refunded when a URL finally fails. Failed submissions
+ * are retried with backoff by the seo_submission job.
+ * mode=async queues the sending and returns 202.
+ */
+
+interface SubmitRequest {
+  content_ids?: string[]
+  engines?: string[]
+  mode?: 'sync' | 'async'
+}
+
+function invalidInput(message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: { code: 'INVALID_INPUT', message },
+    } as ErrorResponse),
+    {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  )
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    const supabase = getSupabaseClient()
+    const user = await getAuthenticatedUser(req, supabase)
+
+    const body: SubmitRequest = await req.json().catch(() => ({}))
+
+    if (body.content_ids !== undefined) {
+      if (!Array.isArray(body.content_ids) || body.content_ids.length === 0 || body.content_ids.some((id) => typeof id !== 'string')) {
+        return invalidInput('content_ids must be a non-empty array of content ids')
+      }
+      if (body.content_ids.length > MAX_SUBMISSIONS_PER_REQUEST) {
+        return invalidInput(`At most ${MAX_SUBMISSIONS_PER_REQUEST} content ids per request`)
+      }
+    }
+
+    if (body.engines !== undefined && (!Array.isArray(body.engines) || body.engines.some((slug) => typeof slug !== 'string'))) {
+      return invalidInput('engines must be an array of search engine slugs')
+    }
+
+    const { count: connectionCount } = await supabase
+      .from('seo_connection')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+
+    if (!connectionCount) {
+      return invalidInput('No active search engine connection')
+    }
+
+    // Charge for the most that can be queued, then give back what was not used
+    const quota = await getQuotaStatus(supabase, user.id, 'seo_submission')
+    const maxSubmissions = Math.min(MAX_SUBMISSIONS_PER_REQUEST, quota.remaining)
+    if (maxSubmissions === 0) {
+      throw new QuotaExceededError(quota)
+    }
+
+    await consumeQuota(supabase, user.id, 'seo_submission', { amount: maxSubmissions })
+
+    let queued = 0
+    try {
+      queued = await queueSubmissions(supabase, user.id, {
+        contentIds: body.content_ids,
+        engines: body.engines,
+        max: maxSubmissions,
+      })
+    } finally {
+      await refundQuota(supabase, user.id, 'seo_submission', 'Search engine submission not queued', maxSubmissions - queued)
+    }
+
+    // mode=async: the seo_submission job sends them (and any due retries)
+    if (isAsyncMode(req, body)) {
+      const job = await enqueueJob(supabase, user.id, 'seo_submission', {}, SUBMISSION_JOB_PRIORITY)
+      return jobAcceptedResponse(job, `${queued} search engine submissions queued`)
+    }
+
+    const summary = await processDueSubmissions(supabase, user.id)
+
+    // Anything left over is picked up by the job
+    if (summary.has_more) {
+      await enqueueJob(supabase, user.id, 'seo_submission', {}, SUBMISSION_JOB_PRIORITY)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        queued,
+        ...summary,
+        quota_remaining: quota.remaining - queued,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error)
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error)
+    }
+
+    console.error('Error in submit-to-search-engines:', error)
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: {
+        code: 'SEO_SUBMISSION_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to submit to search engines',
+      },
+    }
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,77 @@
+-- =================================================================================
+-- JOB WORKER SUPPORT
+-- =================================================================================
+-- Purpose: Let the job-worker Edge Function drain public.job_queue
+-- Dependencies: 20251109135000_phase7.0.0_async_infrastructure.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. job_queue.job_type now references the job_type lookup table instead of a
+--      hardcoded CHECK list (platform_sync, ai_analysis, seo_submission,
+--      quota_reset, token_refresh)
+--   2. Worker-facing RPCs granted to service_role
+--   3. mark_job_not_retryable() so permanent failures skip retry_failed_jobs()
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: JOB TYPE REFERENCE
+-- =================================================================================
+
+-- The original CHECK listed per-platform slugs that never matched the job_type
+-- lookup table. Workers dispatch on job_type.slug, so reference it directly.
+ALTER TABLE public.job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+
+ALTER TABLE public.job_queue
+    ADD CONSTRAINT job_queue_job_type_fkey
+    FOREIGN KEY (job_type) REFERENCES public.job_type(slug)
+    NOT VALID;
+
+COMMENT ON COLUMN public.job_queue.job_type IS 'job_type.slug - platform_sync, ai_analysis, seo_submission, quota_reset, token_refresh';
+
+-- =================================================================================
+-- SECTION 2: WORKER HELPERS
+-- =================================================================================
+
+-- Permanent failures (bad params, disconnected accounts) should not be retried
+CREATE OR REPLACE FUNCTION public.mark_job_not_retryable(p_job_id UUID)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.job_queue
+    SET retry_count = max_retries, updated_at = NOW()
+    WHERE id = p_job_id AND status = 'failed';
+    RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION public.mark_job_not_retryable(UUID) IS 'Exhaust retries for a failed job so retry_failed_jobs() skips it';
+
+-- =================================================================================
+-- SECTION 3: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.mark_job_not_retryable FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_job_not_retryable TO service_role;
+GRANT EXECUTE ON FUNCTION public.retry_failed_jobs TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_stale_jobs TO service_role;
+GRANT EXECUTE ON FUNCTION public.detect_stuck_jobs TO service_role;
+GRANT EXECUTE ON FUNCTION public.cleanup_old_jobs TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Job Worker Support - COMPLETE';
+    RAISE NOTICE '   job_queue.job_type -> job_type.slug';
+    RAISE NOTICE '   Functions: mark_job_not_retryable';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. SELECT create_job(auth.uid(), ''platform_sync'', ''{"platform": "youtube"}''::jsonb)';
+    RAISE NOTICE '   2. POST /functions/v1/job-worker with the service role key';
+    RAISE NOTICE '   3. SELECT * FROM get_user_jobs(auth.uid())';
+END $$;
@@ -0,0 +1,63 @@
+-- =================================================================================
+-- INCREMENTAL CONTENT SYNC
+-- =================================================================================
+-- Purpose: Persist per-account sync position so syncs stop re-walking the newest
+--          pages and full backfills can resume across runs
+-- Dependencies: 20251109134500_phase2.0.0_platform_oauth.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. social_account.sync_high_water_mark - newest published_at imported;
+--      normal syncs stop once they reach it
+--   2. social_account.sync_cursor - platform page cursor where the running
+--      full backfill (force_full_sync) resumes
+--   3. social_account.backfill_started_at / backfill_completed_at
+--   4. social_account.sync_incremental_cursor / sync_pending_high_water_mark -
+--      where an incremental sync that hit its page limit before reaching the
+--      high-water mark continues, and the mark it commits once caught up
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: SYNC POSITION COLUMNS
+-- =================================================================================
+
+ALTER TABLE public.social_account
+    ADD COLUMN IF NOT EXISTS sync_high_water_mark TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS sync_cursor TEXT,
+    ADD COLUMN IF NOT EXISTS backfill_started_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS backfill_completed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS sync_incremental_cursor TEXT,
+    ADD COLUMN IF NOT EXISTS sync_pending_high_water_mark TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.social_account.sync_high_water_mark IS 'Newest content published_at imported; incremental syncs stop here';
+COMMENT ON COLUMN public.social_account.sync_cursor IS 'Platform page cursor for the in-progress full backfill (NULL = none running)';
+COMMENT ON COLUMN public.social_account.backfill_started_at IS 'When the current/last full backfill started';
+COMMENT ON COLUMN public.social_account.backfill_completed_at IS 'When the last full backfill reached the end of the catalogue';
+COMMENT ON COLUMN public.social_account.sync_incremental_cursor IS 'Platform page cursor where an incremental sync that has not reached sync_high_water_mark continues';
+COMMENT ON COLUMN public.social_account.sync_pending_high_water_mark IS 'Newest published_at seen by the unfinished incremental sync; becomes sync_high_water_mark once it catches up';
+
+-- Seed the high-water mark from already imported content
+UPDATE public.social_account sa
+SET sync_high_water_mark = latest.published_at
+FROM (
+    SELECT social_account_id, MAX(published_at) AS published_at
+    FROM public.content_item
+    GROUP BY social_account_id
+) latest
+WHERE latest.social_account_id = sa.id
+  AND sa.sync_high_water_mark IS NULL;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Incremental Content Sync - COMPLETE';
+    RAISE NOTICE '   social_account: sync_high_water_mark, sync_cursor, backfill_started_at, backfill_completed_at';
+    RAISE NOTICE '   social_account: sync_incremental_cursor, sync_pending_high_water_mark';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. POST /functions/v1/sync-youtube {"force_full_sync": true, "mode": "async"}';
+    RAISE NOTICE '   2. SELECT sync_cursor, backfill_completed_at FROM social_account';
+END $$;
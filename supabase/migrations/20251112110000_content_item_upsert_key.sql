@@ -0,0 +1,33 @@
+-- =================================================================================
+-- CONTENT ITEM UPSERT KEY
+-- =================================================================================
+-- Purpose: Let sync functions upsert a whole page of content_item rows at once
+-- Dependencies: 20251109134600_phase3.0.0_content_sync.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. UNIQUE (social_account_id, platform_content_id) - the ON CONFLICT target
+--      used by the sync engine. Existing rows already satisfy it because each
+--      social_account belongs to one platform and (platform_id,
+--      platform_content_id) is unique.
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: UNIQUE CONSTRAINT
+-- =================================================================================
+
+ALTER TABLE public.content_item
+    ADD CONSTRAINT content_item_social_account_content_key
+    UNIQUE (social_account_id, platform_content_id);
+
+COMMENT ON CONSTRAINT content_item_social_account_content_key ON public.content_item IS 'Upsert target for platform sync';
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Content Item Upsert Key - COMPLETE';
+    RAISE NOTICE '   content_item: UNIQUE (social_account_id, platform_content_id)';
+END $$;
@@ -0,0 +1,50 @@
+-- =================================================================================
+-- CONTENT REMOVAL DETECTION
+-- =================================================================================
+-- Purpose: Soft-delete content that disappeared from the source platform and
+--          restore it automatically if it comes back
+-- Dependencies: 20251112100000_incremental_sync.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. content_item.last_seen_at - stamped on every sync upsert; a completed full
+--      backfill soft-deletes rows not seen since backfill_started_at
+--   2. content_item.deleted_reason - why deleted_at was set, so sync only
+--      restores rows it removed itself
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: COLUMNS
+-- =================================================================================
+
+ALTER TABLE public.content_item
+    ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_reason TEXT;
+
+COMMENT ON COLUMN public.content_item.last_seen_at IS 'Last time a platform sync returned this item';
+COMMENT ON COLUMN public.content_item.deleted_reason IS 'Set with deleted_at: removed_from_platform (auto-restored by sync)';
+
+-- Existing rows were last seen when they were last synced
+UPDATE public.content_item
+SET last_seen_at = synced_at
+WHERE last_seen_at IS NULL;
+
+-- =================================================================================
+-- SECTION 2: INDEXES
+-- =================================================================================
+
+-- Reconciliation: live rows of an account not seen since the backfill started
+CREATE INDEX IF NOT EXISTS idx_content_item_account_last_seen
+    ON public.content_item(social_account_id, last_seen_at)
+    WHERE deleted_at IS NULL;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Content Removal Detection - COMPLETE';
+    RAISE NOTICE '   content_item: last_seen_at, deleted_reason';
+    RAISE NOTICE '   Index: idx_content_item_account_last_seen';
+END $$;
@@ -0,0 +1,154 @@
+-- =================================================================================
+-- METRICS SNAPSHOTS
+-- =================================================================================
+-- Purpose: Keep engagement history instead of overwriting counters on every sync
+-- Dependencies: 20251109134600_phase3.0.0_content_sync.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. content_metric_snapshot - one row per content item per day
+--   2. account_metric_snapshot - one row per social account per day
+--   3. snapshot_account_metrics() - aggregates an account's live content
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: CONTENT SNAPSHOTS
+-- =================================================================================
+
+CREATE TABLE public.content_metric_snapshot (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content_item_id UUID NOT NULL REFERENCES public.content_item(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    views_count INT DEFAULT 0,
+    likes_count INT DEFAULT 0,
+    comments_count INT DEFAULT 0,
+    shares_count INT DEFAULT 0,
+
+    -- Last sync of the day wins
+    captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE(content_item_id, snapshot_date)
+);
+
+COMMENT ON TABLE public.content_metric_snapshot IS 'Daily engagement counters per content item, written by platform sync';
+
+-- =================================================================================
+-- SECTION 2: ACCOUNT SNAPSHOTS
+-- =================================================================================
+
+CREATE TABLE public.account_metric_snapshot (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    social_account_id UUID NOT NULL REFERENCES public.social_account(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    follower_count INT DEFAULT 0,
+    content_count INT DEFAULT 0,
+    views_count BIGINT DEFAULT 0,
+    likes_count BIGINT DEFAULT 0,
+    comments_count BIGINT DEFAULT 0,
+    shares_count BIGINT DEFAULT 0,
+
+    captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    UNIQUE(social_account_id, snapshot_date)
+);
+
+COMMENT ON TABLE public.account_metric_snapshot IS 'Daily follower and aggregate engagement totals per social account';
+
+-- =================================================================================
+-- SECTION 3: HELPER FUNCTIONS
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.snapshot_account_metrics(p_social_account_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.account_metric_snapshot (
+        social_account_id, snapshot_date, follower_count, content_count,
+        views_count, likes_count, comments_count, shares_count, captured_at
+    )
+    SELECT
+        sa.id,
+        CURRENT_DATE,
+        COALESCE(sa.follower_count, 0),
+        COUNT(ci.id),
+        COALESCE(SUM(ci.views_count), 0),
+        COALESCE(SUM(ci.likes_count), 0),
+        COALESCE(SUM(ci.comments_count), 0),
+        COALESCE(SUM(ci.shares_count), 0),
+        NOW()
+    FROM public.social_account sa
+    LEFT JOIN public.content_item ci
+        ON ci.social_account_id = sa.id AND ci.deleted_at IS NULL
+    WHERE sa.id = p_social_account_id
+    GROUP BY sa.id, sa.follower_count
+    ON CONFLICT (social_account_id, snapshot_date) DO UPDATE SET
+        follower_count = EXCLUDED.follower_count,
+        content_count = EXCLUDED.content_count,
+        views_count = EXCLUDED.views_count,
+        likes_count = EXCLUDED.likes_count,
+        comments_count = EXCLUDED.comments_count,
+        shares_count = EXCLUDED.shares_count,
+        captured_at = EXCLUDED.captured_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.snapshot_account_metrics(UUID) IS 'Upsert today''s account_metric_snapshot from live content_item rows';
+
+-- =================================================================================
+-- SECTION 4: ROW LEVEL SECURITY
+-- =================================================================================
+
+ALTER TABLE public.content_metric_snapshot ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_metric_snapshot ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY content_metric_snapshot_select_own ON public.content_metric_snapshot
+    FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.content_item ci
+        JOIN public.social_account sa ON sa.id = ci.social_account_id
+        WHERE ci.id = content_metric_snapshot.content_item_id
+        AND sa.user_id = (SELECT auth.uid())
+    ));
+
+CREATE POLICY account_metric_snapshot_select_own ON public.account_metric_snapshot
+    FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.social_account sa
+        WHERE sa.id = account_metric_snapshot.social_account_id
+        AND sa.user_id = (SELECT auth.uid())
+    ));
+
+-- =================================================================================
+-- SECTION 5: INDEXES
+-- =================================================================================
+
+-- UNIQUE constraints already cover (content_item_id, snapshot_date) and
+-- (social_account_id, snapshot_date) range scans
+CREATE INDEX idx_content_metric_snapshot_date ON public.content_metric_snapshot(snapshot_date);
+
+-- =================================================================================
+-- SECTION 6: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_account_metrics FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.snapshot_account_metrics TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Metrics Snapshots - COMPLETE';
+    RAISE NOTICE '   Tables: content_metric_snapshot, account_metric_snapshot';
+    RAISE NOTICE '   Functions: snapshot_account_metrics';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. POST /functions/v1/sync-youtube';
+    RAISE NOTICE '   2. GET /functions/v1/get-content-metrics?content_id=...&days=30';
+END $$;
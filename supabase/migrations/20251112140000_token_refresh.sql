@@ -0,0 +1,93 @@
+-- =================================================================================
+-- PROACTIVE TOKEN REFRESH
+-- =================================================================================
+-- Purpose: Queue token_refresh jobs for users whose OAuth tokens are about to
+--          expire, so Instagram long-lived tokens (60 days) and TikTok tokens
+--          are renewed before syncs start failing
+-- Dependencies: 20251109134500_phase2.0.0_platform_oauth.sql,
+--               20251112090000_job_worker.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. enqueue_token_refresh_jobs() - one token_refresh job per user with an
+--      active platform_connection expiring within the window; connections
+--      without a known expiry or waiting for the user to reconnect are left out
+--   2. Hourly pg_cron schedule (skipped when pg_cron is not installed)
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: ENQUEUE FUNCTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.enqueue_token_refresh_jobs(
+    p_window INTERVAL DEFAULT INTERVAL '3 days'
+)
+RETURNS INT
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    INSERT INTO public.job_queue (user_id, job_type, params, job_priority, status, scheduled_for)
+    SELECT DISTINCT pc.user_id, 'token_refresh', '{}'::jsonb, 3, 'pending', NOW()
+    FROM public.platform_connection pc
+    WHERE pc.is_active = true
+      AND pc.token_expires_at IS NOT NULL
+      AND pc.token_expires_at < NOW() + p_window
+      -- Failed refreshes set last_error (markReauthRequired in
+      -- _shared/platforms/token-refresh.ts); retrying cannot succeed until the
+      -- user reconnects, it would only repeat the reconnect notification
+      AND NOT (pc.last_error IS NOT NULL AND pc.is_verified IS NOT TRUE)
+      AND NOT EXISTS (
+          SELECT 1 FROM public.job_queue jq
+          WHERE jq.user_id = pc.user_id
+            AND jq.job_type = 'token_refresh'
+            AND jq.status IN ('pending', 'processing')
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.enqueue_token_refresh_jobs(INTERVAL) IS 'Queue token_refresh jobs for users with OAuth tokens expiring within p_window';
+
+-- =================================================================================
+-- SECTION 2: SCHEDULING
+-- =================================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'enqueue-token-refresh',
+            '15 * * * *', -- Hourly
+            'SELECT public.enqueue_token_refresh_jobs()'
+        );
+    ELSE
+        RAISE NOTICE '⚠️  pg_cron not installed - schedule enqueue_token_refresh_jobs() manually';
+    END IF;
+END $$;
+
+-- =================================================================================
+-- SECTION 3: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_token_refresh_jobs FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_token_refresh_jobs TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Proactive Token Refresh - COMPLETE';
+    RAISE NOTICE '   Functions: enqueue_token_refresh_jobs';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. SELECT enqueue_token_refresh_jobs(INTERVAL ''365 days'')';
+    RAISE NOTICE '   2. POST /functions/v1/job-worker {"job_types": ["token_refresh"]}';
+END $$;
@@ -0,0 +1,69 @@
+-- =================================================================================
+-- DISCONNECT SOCIAL ACCOUNT
+-- =================================================================================
+-- Purpose: Support the disconnect-social-account Edge Function
+-- Dependencies: 20251109134900_phase6.0.0_discovery_platform.sql,
+--               20251112120000_content_removal_detection.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. vault_delete() - drop the OAuth token secret of a disconnected account
+--   2. update_total_followers() ignores soft-deleted (disconnected) accounts
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: VAULT HELPER
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.vault_delete(secret_name TEXT)
+RETURNS BOOLEAN
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    DELETE FROM vault.secrets WHERE name = secret_name;
+    RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION public.vault_delete(TEXT) IS 'Delete a Vault secret by name (OAuth tokens of disconnected accounts)';
+
+-- =================================================================================
+-- SECTION 2: FOLLOWER TOTALS
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.update_total_followers(p_user_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.users
+    SET total_followers_count = (
+        SELECT COALESCE(SUM(follower_count), 0)
+        FROM public.social_account
+        WHERE user_id = p_user_id
+          AND deleted_at IS NULL
+    )
+    WHERE id = p_user_id;
+END;
+$$;
+
+-- =================================================================================
+-- SECTION 3: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.vault_delete FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.vault_delete TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Disconnect Social Account - COMPLETE';
+    RAISE NOTICE '   Functions: vault_delete, update_total_followers (skips deleted accounts)';
+END $$;
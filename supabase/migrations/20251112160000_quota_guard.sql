@@ -0,0 +1,214 @@
+-- =================================================================================
+-- QUOTA GUARD
+-- =================================================================================
+-- Purpose: Atomic check-and-consume for subscription quotas used by the
+--          Edge Functions (_shared/quota.ts)
+-- Dependencies: 20251109211500_phase1.0.1_fix_duplicate_index.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. consume_quota() - locks the subscription row, rejects when the tier limit
+--      would be exceeded, otherwise increments via increment_quota()
+--   2. 'social_account' quota type - counts live social accounts against
+--      max_social_accounts (no usage counter to increment)
+--   3. Rejected attempts are recorded in quota_usage_history (operation 'rejected')
+--   4. decrement_quota() - 'social_account' refunds only write the history row
+--      that balances consume_quota() (failed account connections)
+--   5. increment_quota() / decrement_quota() are service_role only - the
+--      authenticated grant let users refund or change any user's counters
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: CONSUME FUNCTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.consume_quota(
+    p_user_id UUID,
+    p_quota_type TEXT,
+    p_amount INT DEFAULT 1,
+    p_related_entity_type TEXT DEFAULT NULL,
+    p_related_entity_id UUID DEFAULT NULL
+)
+RETURNS TABLE(allowed BOOLEAN, used INT, max_value INT, cycle_end TIMESTAMPTZ)
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_used INT;
+    v_max INT;
+    v_cycle_start TIMESTAMPTZ;
+    v_cycle_end TIMESTAMPTZ;
+BEGIN
+    -- Row lock serializes concurrent requests for the same user
+    SELECT
+        CASE p_quota_type
+            WHEN 'sync' THEN s.syncs_used
+            WHEN 'ai_analysis' THEN s.ai_analyses_used
+            WHEN 'seo_submission' THEN s.seo_submissions_used
+            WHEN 'social_account' THEN (
+                SELECT COUNT(*)::INT FROM public.social_account sa
+                WHERE sa.user_id = p_user_id AND sa.deleted_at IS NULL
+            )
+        END,
+        CASE p_quota_type
+            WHEN 'sync' THEN t.max_syncs_per_month
+            WHEN 'ai_analysis' THEN t.max_ai_analyses_per_month
+            WHEN 'seo_submission' THEN t.max_seo_submissions_per_month
+            WHEN 'social_account' THEN t.max_social_accounts
+        END,
+        s.cycle_start_date,
+        s.cycle_end_date
+    INTO v_used, v_max, v_cycle_start, v_cycle_end
+    FROM public.subscription s
+    JOIN public.subscription_tier t ON s.tier_id = t.id
+    WHERE s.user_id = p_user_id
+    FOR UPDATE OF s;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Subscription not found for user %', p_user_id;
+    END IF;
+
+    IF v_max IS NULL THEN
+        RAISE EXCEPTION 'Unknown quota type: %', p_quota_type;
+    END IF;
+
+    IF v_used + p_amount > v_max THEN
+        INSERT INTO public.quota_usage_history (
+            user_id, quota_type, operation, amount, current_value, max_value,
+            related_entity_type, related_entity_id, reason, billing_cycle_start, billing_cycle_end
+        ) VALUES (
+            p_user_id, p_quota_type, 'rejected', p_amount, v_used, v_max,
+            p_related_entity_type, p_related_entity_id, 'Quota exceeded', v_cycle_start, v_cycle_end
+        );
+
+        RETURN QUERY SELECT false, v_used, v_max, v_cycle_end;
+        RETURN;
+    END IF;
+
+    IF p_quota_type = 'social_account' THEN
+        -- Accounts are counted live, only the history row is written
+        INSERT INTO public.quota_usage_history (
+            user_id, quota_type, operation, amount, current_value, max_value,
+            related_entity_type, related_entity_id, billing_cycle_start, billing_cycle_end
+        ) VALUES (
+            p_user_id, p_quota_type, 'increment', p_amount, v_used + p_amount, v_max,
+            p_related_entity_type, p_related_entity_id, v_cycle_start, v_cycle_end
+        );
+    ELSE
+        PERFORM public.increment_quota(
+            p_user_id, p_quota_type, p_amount, p_related_entity_type, p_related_entity_id
+        );
+    END IF;
+
+    RETURN QUERY SELECT true, v_used + p_amount, v_max, v_cycle_end;
+END;
+$$;
+
+COMMENT ON FUNCTION public.consume_quota(UUID, TEXT, INT, TEXT, UUID) IS 'Atomically check and consume a subscription quota (sync, ai_analysis, seo_submission, social_account)';
+
+-- =================================================================================
+-- SECTION 2: REFUND FUNCTION
+-- =================================================================================
+
+-- Same as before for the counter quotas. Accounts are counted live, so a
+-- social_account refund has nothing to give back: it records the history row
+-- (current_value = live count) that balances the consume_quota() one.
+CREATE OR REPLACE FUNCTION public.decrement_quota(
+    p_user_id UUID,
+    p_quota_type TEXT,
+    p_amount INT DEFAULT 1,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_new_usage INT;
+    v_max_quota INT;
+    v_cycle_start TIMESTAMPTZ;
+    v_cycle_end TIMESTAMPTZ;
+BEGIN
+    IF p_quota_type = 'social_account' THEN
+        INSERT INTO public.quota_usage_history (
+            user_id, quota_type, operation, amount, current_value, max_value,
+            reason, billing_cycle_start, billing_cycle_end
+        )
+        SELECT
+            p_user_id, p_quota_type, 'decrement', p_amount,
+            (
+                SELECT COUNT(*)::INT FROM public.social_account sa
+                WHERE sa.user_id = p_user_id AND sa.deleted_at IS NULL
+            ),
+            t.max_social_accounts, p_reason, s.cycle_start_date, s.cycle_end_date
+        FROM public.subscription s
+        JOIN public.subscription_tier t ON s.tier_id = t.id
+        WHERE s.user_id = p_user_id;
+        RETURN;
+    END IF;
+
+    UPDATE public.subscription s
+    SET
+        syncs_used = CASE WHEN p_quota_type = 'sync' THEN GREATEST(0, syncs_used - p_amount) ELSE syncs_used END,
+        ai_analyses_used = CASE WHEN p_quota_type = 'ai_analysis' THEN GREATEST(0, ai_analyses_used - p_amount) ELSE ai_analyses_used END,
+        seo_submissions_used = CASE WHEN p_quota_type = 'seo_submission' THEN GREATEST(0, seo_submissions_used - p_amount) ELSE seo_submissions_used END,
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    RETURNING
+        CASE p_quota_type
+            WHEN 'sync' THEN syncs_used
+            WHEN 'ai_analysis' THEN ai_analyses_used
+            WHEN 'seo_submission' THEN seo_submissions_used
+        END,
+        cycle_start_date,
+        cycle_end_date
+    INTO v_new_usage, v_cycle_start, v_cycle_end;
+
+    SELECT
+        CASE p_quota_type
+            WHEN 'sync' THEN t.max_syncs_per_month
+            WHEN 'ai_analysis' THEN t.max_ai_analyses_per_month
+            WHEN 'seo_submission' THEN t.max_seo_submissions_per_month
+        END
+    INTO v_max_quota
+    FROM public.subscription s
+    JOIN public.subscription_tier t ON s.tier_id = t.id
+    WHERE s.user_id = p_user_id;
+
+    INSERT INTO public.quota_usage_history (
+        user_id, quota_type, operation, amount, current_value, max_value,
+        reason, billing_cycle_start, billing_cycle_end
+    ) VALUES (
+        p_user_id, p_quota_type, 'decrement', p_amount, v_new_usage, v_max_quota,
+        p_reason, v_cycle_start, v_cycle_end
+    );
+END;
+$$;
+
+-- =================================================================================
+-- SECTION 3: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.consume_quota FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_quota TO service_role;
+
+-- Granted to authenticated by 20251109211500_phase1.0.1_fix_duplicate_index.sql
+REVOKE EXECUTE ON FUNCTION public.increment_quota FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_quota TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.decrement_quota FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.decrement_quota TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Quota Guard - COMPLETE';
+    RAISE NOTICE '   Functions: consume_quota, decrement_quota';
+    RAISE NOTICE '   Service role only: consume_quota, increment_quota, decrement_quota';
+    RAISE NOTICE '   Quota types: sync, ai_analysis, seo_submission, social_account';
+END $$;
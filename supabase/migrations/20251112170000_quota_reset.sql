@@ -0,0 +1,183 @@
+-- =================================================================================
+-- MONTHLY QUOTA RESET
+-- =================================================================================
+-- Purpose: Reset subscription usage counters at each billing-cycle boundary
+--          via quota_reset jobs processed by job-worker
+-- Dependencies: 20251109211500_phase1.0.1_fix_duplicate_index.sql,
+--               20251112090000_job_worker.sql,
+--               20251112160000_quota_guard.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. subscription.usage_reset_at - when counters were last reset
+--   2. reset_subscription_quota() - rolls Free/unbilled cycles forward by a month
+--      (Stripe-billed cycles are moved by stripe-webhook) and zeroes counters
+--      once a new cycle has started
+--   3. enqueue_quota_reset_jobs() + pg_cron schedule (skipped without pg_cron)
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: SCHEMA
+-- =================================================================================
+
+ALTER TABLE public.subscription
+    ADD COLUMN IF NOT EXISTS usage_reset_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN public.subscription.usage_reset_at IS 'Last time syncs_used/ai_analyses_used/seo_submissions_used were reset; a reset is due once cycle_start_date passes it';
+
+CREATE INDEX IF NOT EXISTS idx_subscription_cycle_end ON public.subscription(cycle_end_date);
+
+-- =================================================================================
+-- SECTION 2: RESET FUNCTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.reset_subscription_quota(p_user_id UUID)
+RETURNS TABLE(
+    was_reset BOOLEAN,
+    previous_syncs_used INT,
+    previous_ai_analyses_used INT,
+    previous_seo_submissions_used INT,
+    cycle_start TIMESTAMPTZ,
+    cycle_end TIMESTAMPTZ
+)
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_sub RECORD;
+    v_start TIMESTAMPTZ;
+    v_end TIMESTAMPTZ;
+BEGIN
+    SELECT s.*, t.max_syncs_per_month, t.max_ai_analyses_per_month, t.max_seo_submissions_per_month
+    INTO v_sub
+    FROM public.subscription s
+    JOIN public.subscription_tier t ON s.tier_id = t.id
+    WHERE s.user_id = p_user_id
+    FOR UPDATE OF s;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Subscription not found for user %', p_user_id;
+    END IF;
+
+    v_start := v_sub.cycle_start_date;
+    v_end := v_sub.cycle_end_date;
+
+    -- Stripe owns the period of paid subscriptions; everything else rolls monthly
+    IF v_sub.stripe_subscription_id IS NULL THEN
+        WHILE v_end <= NOW() LOOP
+            v_start := v_end;
+            v_end := v_end + INTERVAL '1 month';
+        END LOOP;
+    END IF;
+
+    IF v_sub.usage_reset_at >= v_start THEN
+        RETURN QUERY SELECT false, v_sub.syncs_used, v_sub.ai_analyses_used,
+            v_sub.seo_submissions_used, v_start, v_end;
+        RETURN;
+    END IF;
+
+    -- Closing usage of the finished cycle
+    INSERT INTO public.quota_usage_history (
+        user_id, quota_type, operation, amount, current_value, max_value,
+        reason, billing_cycle_start, billing_cycle_end
+    ) VALUES
+        (p_user_id, 'sync', 'reset', v_sub.syncs_used, 0, v_sub.max_syncs_per_month,
+         'Billing cycle reset', v_sub.cycle_start_date, v_sub.cycle_end_date),
+        (p_user_id, 'ai_analysis', 'reset', v_sub.ai_analyses_used, 0, v_sub.max_ai_analyses_per_month,
+         'Billing cycle reset', v_sub.cycle_start_date, v_sub.cycle_end_date),
+        (p_user_id, 'seo_submission', 'reset', v_sub.seo_submissions_used, 0, v_sub.max_seo_submissions_per_month,
+         'Billing cycle reset', v_sub.cycle_start_date, v_sub.cycle_end_date);
+
+    UPDATE public.subscription
+    SET syncs_used = 0,
+        ai_analyses_used = 0,
+        seo_submissions_used = 0,
+        cycle_start_date = v_start,
+        cycle_end_date = v_end,
+        usage_reset_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_sub.id;
+
+    RETURN QUERY SELECT true, v_sub.syncs_used, v_sub.ai_analyses_used,
+        v_sub.seo_submissions_used, v_start, v_end;
+END;
+$$;
+
+COMMENT ON FUNCTION public.reset_subscription_quota(UUID) IS 'Reset usage counters when a new billing cycle has started (no-op otherwise)';
+
+-- =================================================================================
+-- SECTION 3: ENQUEUE FUNCTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.enqueue_quota_reset_jobs()
+RETURNS INT
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    INSERT INTO public.job_queue (user_id, job_type, params, job_priority, status, scheduled_for)
+    SELECT s.user_id, 'quota_reset', '{}'::jsonb, 2, 'pending', NOW()
+    FROM public.subscription s
+    WHERE (
+            (s.stripe_subscription_id IS NULL AND s.cycle_end_date <= NOW())
+            OR s.usage_reset_at < s.cycle_start_date
+        )
+      AND NOT EXISTS (
+          SELECT 1 FROM public.job_queue jq
+          WHERE jq.user_id = s.user_id
+            AND jq.job_type = 'quota_reset'
+            AND jq.status IN ('pending', 'processing')
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.enqueue_quota_reset_jobs() IS 'Queue quota_reset jobs for subscriptions whose billing cycle has rolled over';
+
+-- =================================================================================
+-- SECTION 4: SCHEDULING
+-- =================================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'enqueue-quota-reset',
+            '5 * * * *', -- Hourly
+            'SELECT public.enqueue_quota_reset_jobs()'
+        );
+    ELSE
+        RAISE NOTICE '⚠️  pg_cron not installed - schedule enqueue_quota_reset_jobs() manually';
+    END IF;
+END $$;
+
+-- =================================================================================
+-- SECTION 5: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.reset_subscription_quota FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_subscription_quota TO service_role;
+REVOKE EXECUTE ON FUNCTION public.enqueue_quota_reset_jobs FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_quota_reset_jobs TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Monthly Quota Reset - COMPLETE';
+    RAISE NOTICE '   Columns: subscription.usage_reset_at';
+    RAISE NOTICE '   Functions: reset_subscription_quota, enqueue_quota_reset_jobs';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. UPDATE subscription SET cycle_end_date = NOW() - INTERVAL ''1 day'' WHERE user_id = ''<user>''';
+    RAISE NOTICE '   2. SELECT enqueue_quota_reset_jobs()';
+    RAISE NOTICE '   3. POST /functions/v1/job-worker {"job_types": ["quota_reset"]}';
+END $$;
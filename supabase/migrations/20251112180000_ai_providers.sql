@@ -0,0 +1,99 @@
+-- =================================================================================
+-- PLUGGABLE AI PROVIDERS
+-- =================================================================================
+-- Purpose: Model selection and cost tracking for the _shared/ai provider layer
+-- Dependencies: 20251109134700_phase4.0.0_ai_enhancement.sql,
+--               20251109211500_phase1.0.1_fix_duplicate_index.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. ai_model prices stored per 1K tokens as the column names say (seeded
+--      values were provider list prices per 1M tokens) with enough precision
+--      for small models; ai_usage.cost_cents keeps fractions of a cent
+--   2. 'mock' provider + 'mock-deterministic' model for local development;
+--      resolveModel() (_shared/ai/client.ts) only uses it with
+--      AI_PROVIDER_OVERRIDE=mock, so the active seed is safe in production
+--   3. subscription_tier.default_ai_model_id - model used when neither the
+--      request nor user_ai_setting picks one
+--   4. subscription_tier.allowed_ai_model_ids - further models the request or
+--      user_ai_setting may pick; anything else falls back to the tier default
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: PRICING PRECISION
+-- =================================================================================
+
+ALTER TABLE public.ai_model
+    ALTER COLUMN input_cost_per_1k_tokens TYPE DECIMAL(12,6),
+    ALTER COLUMN output_cost_per_1k_tokens TYPE DECIMAL(12,6);
+
+UPDATE public.ai_model
+SET input_cost_per_1k_tokens = input_cost_per_1k_tokens / 1000,
+    output_cost_per_1k_tokens = output_cost_per_1k_tokens / 1000,
+    updated_at = NOW();
+
+COMMENT ON COLUMN public.ai_model.input_cost_per_1k_tokens IS 'USD per 1,000 prompt tokens';
+COMMENT ON COLUMN public.ai_model.output_cost_per_1k_tokens IS 'USD per 1,000 completion tokens';
+
+ALTER TABLE public.ai_usage
+    ALTER COLUMN cost_cents TYPE DECIMAL(12,4);
+
+-- =================================================================================
+-- SECTION 2: MOCK PROVIDER
+-- =================================================================================
+
+INSERT INTO public.ai_provider (slug, display_name, base_url, is_api_key_required, is_streaming_supported)
+VALUES ('mock', 'Mock (deterministic)', NULL, false, false)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO public.ai_model (provider_id, model_name, display_name, capabilities, max_context_tokens, input_cost_per_1k_tokens, output_cost_per_1k_tokens)
+SELECT p.id, 'mock-deterministic', 'Mock (deterministic)', ARRAY['text_generation'], 128000, 0, 0
+FROM public.ai_provider p
+WHERE p.slug = 'mock'
+ON CONFLICT (provider_id, model_name) DO NOTHING;
+
+-- =================================================================================
+-- SECTION 3: TIER MODELS
+-- =================================================================================
+
+ALTER TABLE public.subscription_tier
+    ADD COLUMN IF NOT EXISTS default_ai_model_id UUID REFERENCES public.ai_model(id);
+
+COMMENT ON COLUMN public.subscription_tier.default_ai_model_id IS 'AI model used for this tier unless the request or user_ai_setting selects another';
+
+ALTER TABLE public.subscription_tier
+    ADD COLUMN IF NOT EXISTS allowed_ai_model_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.subscription_tier.allowed_ai_model_ids IS 'AI models besides default_ai_model_id that requests and user_ai_setting may select on this tier';
+
+UPDATE public.subscription_tier t
+SET default_ai_model_id = m.id
+FROM public.ai_model m
+JOIN public.ai_provider p ON p.id = m.provider_id
+WHERE p.slug = 'openai'
+  AND m.model_name = CASE t.slug WHEN 'premium' THEN 'gpt-4o' ELSE 'gpt-4o-mini' END;
+
+-- Premium may pick any implemented model, the other tiers only their default
+UPDATE public.subscription_tier t
+SET allowed_ai_model_ids = ARRAY(
+    SELECT m.id
+    FROM public.ai_model m
+    JOIN public.ai_provider p ON p.id = m.provider_id
+    WHERE (p.slug, m.model_name) IN (('openai', 'gpt-4o'), ('openai', 'gpt-4o-mini'), ('anthropic', 'claude-3-5-sonnet-20241022'))
+)
+WHERE t.slug = 'premium';
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Pluggable AI Providers - COMPLETE';
+    RAISE NOTICE '   Columns: subscription_tier.default_ai_model_id, subscription_tier.allowed_ai_model_ids';
+    RAISE NOTICE '   Seeds: mock provider, mock-deterministic model';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. SELECT slug, default_ai_model_id, allowed_ai_model_ids FROM subscription_tier';
+    RAISE NOTICE '   2. With AI_PROVIDER_OVERRIDE=mock: POST /functions/v1/ai-generate-tags {"content_id": "..."}';
+END $$;
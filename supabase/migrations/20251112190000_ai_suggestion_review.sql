@@ -0,0 +1,63 @@
+-- =================================================================================
+-- AI SUGGESTION REVIEW
+-- =================================================================================
+-- Purpose: AI runs store a reviewable ai_suggestion; creators apply individual
+--          fields through apply-ai-suggestion (ai_suggestion_application)
+-- Dependencies: 20251109134700_phase4.0.0_ai_enhancement.sql,
+--               20251110030000_optimize_rls_performance.sql,
+--               20251112180000_ai_providers.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. ai_suggestion.total_cost_cents keeps fractions of a cent (as ai_usage)
+--   2. ai_suggestion_application.field_name limited to the applicable
+--      content_item fields
+--   3. Creators can read the application history of their own suggestions
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: SCHEMA
+-- =================================================================================
+
+ALTER TABLE public.ai_suggestion
+    ALTER COLUMN total_cost_cents TYPE DECIMAL(12,4);
+
+ALTER TABLE public.ai_suggestion_application
+    ADD CONSTRAINT ai_suggestion_application_field_name_check
+    CHECK (field_name IN ('seo_title', 'seo_description', 'category_code'));
+
+COMMENT ON COLUMN public.ai_suggestion_application.field_name IS 'content_item column the suggestion was applied to';
+
+-- =================================================================================
+-- SECTION 2: RLS
+-- =================================================================================
+
+-- Ownership follows ai_suggestion_all_own (content_item -> social_account)
+DROP POLICY IF EXISTS ai_suggestion_application_select_own ON public.ai_suggestion_application;
+CREATE POLICY ai_suggestion_application_select_own ON public.ai_suggestion_application
+    FOR SELECT
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT sa.user_id
+            FROM public.ai_suggestion s
+            JOIN public.content_item ci ON s.content_item_id = ci.id
+            JOIN public.social_account sa ON ci.social_account_id = sa.id
+            WHERE s.id = ai_suggestion_application.suggestion_id
+        )
+    );
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ AI Suggestion Review - COMPLETE';
+    RAISE NOTICE '   Constraints: ai_suggestion_application_field_name_check';
+    RAISE NOTICE '   Policies: ai_suggestion_application_select_own';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. POST /functions/v1/ai-generate-tags {"content_id": "..."}';
+    RAISE NOTICE '   2. GET /functions/v1/list-ai-suggestions?content_id=...';
+    RAISE NOTICE '   3. POST /functions/v1/apply-ai-suggestion {"suggestion_id": "...", "fields": ["seo_title"]}';
+END $$;
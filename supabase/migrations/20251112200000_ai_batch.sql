@@ -0,0 +1,172 @@
+-- =================================================================================
+-- BATCH AI TAGGING
+-- =================================================================================
+-- Purpose: Tag a whole social account (or a filtered set of content) with one
+--          request; an ai_batch dispatcher job feeds ai_analysis jobs to the
+--          queue a few at a time
+-- Dependencies: 20251109135000_phase7.0.0_async_infrastructure.sql,
+--               20251112090000_job_worker.sql,
+--               20251112160000_quota_guard.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. 'ai_batch' job type
+--   2. ai_batch - one row per batch request (filters, concurrency, status)
+--   3. ai_batch_item - content items of a batch and the ai_analysis job of each
+--   4. create_ai_batch_items() - selects the matching content items
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: JOB TYPE
+-- =================================================================================
+
+INSERT INTO public.job_type (slug, display_name, description)
+VALUES ('ai_batch', 'AI Batch', 'Dispatch ai_analysis jobs for a batch of content')
+ON CONFLICT (slug) DO NOTHING;
+
+COMMENT ON COLUMN public.job_queue.job_type IS 'job_type.slug - platform_sync, ai_analysis, ai_batch, seo_submission, quota_reset, token_refresh';
+
+-- =================================================================================
+-- SECTION 2: TABLES
+-- =================================================================================
+
+CREATE TABLE IF NOT EXISTS public.ai_batch (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+
+    -- Selection
+    social_account_id UUID REFERENCES public.social_account(id) ON DELETE SET NULL,
+    is_untagged_only BOOLEAN NOT NULL DEFAULT true,
+    published_since TIMESTAMPTZ,
+    model_name TEXT,
+
+    -- Dispatch
+    concurrency INT NOT NULL DEFAULT 3 CHECK (concurrency BETWEEN 1 AND 5),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'quota_exceeded')),
+    total_items INT NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE public.ai_batch IS 'Batch AI tagging requests (ai-generate-tags batch mode)';
+
+CREATE INDEX IF NOT EXISTS idx_ai_batch_user ON public.ai_batch(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.ai_batch_item (
+    batch_id UUID NOT NULL REFERENCES public.ai_batch(id) ON DELETE CASCADE,
+    content_item_id UUID NOT NULL REFERENCES public.content_item(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending', 'queued', 'completed', 'failed', 'skipped'
+    )),
+    job_id UUID REFERENCES public.job_queue(id) ON DELETE SET NULL,
+    error_message TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    PRIMARY KEY (batch_id, content_item_id)
+);
+
+COMMENT ON TABLE public.ai_batch_item IS 'Content items of an ai_batch; queued items point at their ai_analysis job';
+
+CREATE INDEX IF NOT EXISTS idx_ai_batch_item_status ON public.ai_batch_item(batch_id, status);
+
+ALTER TABLE public.ai_batch ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_batch_item ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ai_batch_select_own ON public.ai_batch;
+CREATE POLICY ai_batch_select_own ON public.ai_batch
+    FOR SELECT
+    USING ((SELECT auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS ai_batch_item_select_own ON public.ai_batch_item;
+CREATE POLICY ai_batch_item_select_own ON public.ai_batch_item
+    FOR SELECT
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT b.user_id FROM public.ai_batch b WHERE b.id = ai_batch_item.batch_id
+        )
+    );
+
+-- =================================================================================
+-- SECTION 3: ITEM SELECTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.create_ai_batch_items(
+    p_batch_id UUID,
+    p_max_items INT DEFAULT 500
+)
+RETURNS INT
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_batch RECORD;
+    v_count INT;
+BEGIN
+    SELECT * INTO v_batch FROM public.ai_batch WHERE id = p_batch_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'AI batch % not found', p_batch_id;
+    END IF;
+
+    -- Newest content first so a capped batch covers what viewers see first
+    INSERT INTO public.ai_batch_item (batch_id, content_item_id)
+    SELECT p_batch_id, ci.id
+    FROM public.content_item ci
+    JOIN public.social_account sa ON ci.social_account_id = sa.id
+    WHERE sa.user_id = v_batch.user_id
+      AND sa.deleted_at IS NULL
+      AND ci.deleted_at IS NULL
+      AND (v_batch.social_account_id IS NULL OR ci.social_account_id = v_batch.social_account_id)
+      AND (v_batch.published_since IS NULL OR ci.published_at >= v_batch.published_since)
+      AND (
+          NOT v_batch.is_untagged_only
+          OR NOT EXISTS (
+              SELECT 1 FROM public.content_tag ct
+              WHERE ct.content_id = ci.id AND ct.source = 'ai_generated'
+          )
+      )
+    ORDER BY ci.published_at DESC
+    LIMIT p_max_items
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE public.ai_batch
+    SET total_items = v_count, updated_at = NOW()
+    WHERE id = p_batch_id;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_ai_batch_items(UUID, INT) IS 'Fill ai_batch_item with the live content items matching the batch filters';
+
+-- =================================================================================
+-- SECTION 4: GRANTS & PERMISSIONS
+-- =================================================================================
+
+GRANT SELECT ON public.ai_batch TO authenticated;
+GRANT SELECT ON public.ai_batch_item TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.create_ai_batch_items FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_ai_batch_items TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Batch AI Tagging - COMPLETE';
+    RAISE NOTICE '   Tables: ai_batch, ai_batch_item';
+    RAISE NOTICE '   Functions: create_ai_batch_items';
+    RAISE NOTICE '   Job types: ai_batch';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. POST /functions/v1/ai-generate-tags {"batch": {"social_account_id": "..."}}';
+    RAISE NOTICE '   2. POST /functions/v1/job-worker {"job_types": ["ai_batch", "ai_analysis"]}';
+    RAISE NOTICE '   3. GET /functions/v1/ai-generate-tags?batch_id=...';
+END $$;
@@ -0,0 +1,65 @@
+-- =================================================================================
+-- CONTENT CLASSIFICATION
+-- =================================================================================
+-- Purpose: Give synced content a leaf content_category so browse-categories and
+--          the category filters of browse-content / search-content have data
+-- Dependencies: 20251109134600_phase3.0.0_content_sync.sql,
+--               20251109134900_phase6.0.0_discovery_platform.sql,
+--               20251112090000_job_worker.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. content_item.platform_category_id - platform-native category (YouTube categoryId)
+--   2. content_item.category_source / category_confidence / category_classified_at
+--      - how category_code was chosen; 'user' is never overwritten automatically
+--   3. 'content_classification' job type (queued after every sync)
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: SCHEMA
+-- =================================================================================
+
+ALTER TABLE public.content_item
+    ADD COLUMN IF NOT EXISTS platform_category_id TEXT,
+    ADD COLUMN IF NOT EXISTS category_source TEXT CHECK (category_source IN ('platform', 'hashtags', 'ai', 'user')),
+    ADD COLUMN IF NOT EXISTS category_confidence DECIMAL(3,2),
+    ADD COLUMN IF NOT EXISTS category_classified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.content_item.platform_category_id IS 'Platform-native category id, e.g. YouTube snippet.categoryId';
+COMMENT ON COLUMN public.content_item.category_source IS 'How category_code was set: platform hint, hashtags, ai fallback or the creator (user)';
+COMMENT ON COLUMN public.content_item.category_classified_at IS 'Last automatic classification attempt (set even when no category was found)';
+
+-- Categories set before classification existed were picked or approved by the creator
+UPDATE public.content_item
+SET category_source = 'user'
+WHERE category_code IS NOT NULL
+  AND category_source IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_content_item_unclassified
+    ON public.content_item(social_account_id)
+    WHERE category_classified_at IS NULL AND deleted_at IS NULL;
+
+-- =================================================================================
+-- SECTION 2: JOB TYPE
+-- =================================================================================
+
+INSERT INTO public.job_type (slug, display_name, description)
+VALUES ('content_classification', 'Content Classification', 'Assign content_category codes to content items')
+ON CONFLICT (slug) DO NOTHING;
+
+COMMENT ON COLUMN public.job_queue.job_type IS 'job_type.slug - platform_sync, ai_analysis, ai_batch, content_classification, seo_submission, quota_reset, token_refresh';
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Content Classification - COMPLETE';
+    RAISE NOTICE '   Columns: content_item.platform_category_id, category_source, category_confidence, category_classified_at';
+    RAISE NOTICE '   Job types: content_classification';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. POST /functions/v1/classify-content {"content_ids": ["..."]}';
+    RAISE NOTICE '   2. SELECT category_code, category_source FROM content_item WHERE id = ''...''';
+END $$;
@@ -0,0 +1,186 @@
+-- =================================================================================
+-- TRENDING KEYWORD INGESTION
+-- =================================================================================
+-- Purpose: Fill trending_keyword from our own content so AI prompts and
+--          get-trending-keywords have current trends without an external feed
+-- Dependencies: 20251109134600_phase3.0.0_content_sync.sql,
+--               20251109134700_phase4.0.0_ai_enhancement.sql,
+--               20251109134900_phase6.0.0_discovery_platform.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. refresh_trending_keywords() - scores content_tag tags and content_item
+--      hashtags by how much their use grew in the last window compared to the
+--      window before, per platform, region and language; replaces the previous
+--      'content_growth' rows and deletes expired rows of every source
+--   2. Region 'GLOBAL' aggregates all content; country regions come from the
+--      content_click.country_code of the content's recent clicks.
+--      search_volume holds the number of recent content items using the keyword
+--   3. pg_cron schedule every 6 hours (skipped when pg_cron is not installed)
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: INDEXES
+-- =================================================================================
+
+CREATE INDEX IF NOT EXISTS idx_trending_keyword_lookup
+    ON public.trending_keyword(platform_id, region, language, valid_until, trending_score DESC);
+
+-- =================================================================================
+-- SECTION 2: REFRESH FUNCTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.refresh_trending_keywords(
+    p_window INTERVAL DEFAULT INTERVAL '7 days',
+    p_valid_for INTERVAL DEFAULT INTERVAL '12 hours',
+    p_min_uses INT DEFAULT 2,
+    p_limit INT DEFAULT 100
+)
+RETURNS TABLE (
+    inserted_count INT,
+    deleted_count INT
+)
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_now TIMESTAMPTZ := NOW();
+    v_inserted INT;
+    v_deleted INT;
+BEGIN
+    -- Expired rows of any source, plus our own rows that this run replaces
+    DELETE FROM public.trending_keyword
+    WHERE valid_until <= v_now
+       OR source = 'content_growth';
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+    WITH keyword_use AS (
+        SELECT
+            ci.id AS content_id,
+            ci.platform_id,
+            COALESCE(NULLIF(lower(ci.language), ''), 'en') AS language,
+            ci.category_code,
+            ci.published_at >= v_now - p_window AS is_recent,
+            kw.keyword
+        FROM public.content_item ci
+        JOIN public.social_account sa ON sa.id = ci.social_account_id
+        CROSS JOIN LATERAL (
+            SELECT lower(ct.tag) AS keyword
+            FROM public.content_tag ct
+            WHERE ct.content_id = ci.id
+            UNION
+            SELECT lower(ltrim(h.tag, '#'))
+            FROM unnest(ci.hashtags) AS h(tag)
+        ) kw
+        WHERE ci.deleted_at IS NULL
+          AND sa.deleted_at IS NULL
+          AND ci.visibility = 'public'
+          AND ci.published_at >= v_now - (p_window * 2)
+          AND length(kw.keyword) BETWEEN 2 AND 50
+    ),
+    content_region AS (
+        SELECT DISTINCT cc.content_id, upper(cc.country_code) AS region
+        FROM public.content_click cc
+        WHERE cc.clicked_at >= v_now - p_window
+          AND cc.country_code IS NOT NULL
+    ),
+    regional_use AS (
+        SELECT ku.*, 'GLOBAL' AS region FROM keyword_use ku
+        UNION ALL
+        SELECT ku.*, cr.region FROM keyword_use ku JOIN content_region cr USING (content_id)
+    ),
+    stats AS (
+        SELECT
+            platform_id,
+            region,
+            language,
+            keyword,
+            COUNT(DISTINCT content_id) FILTER (WHERE is_recent) AS recent_count,
+            COUNT(DISTINCT content_id) FILTER (WHERE NOT is_recent) AS previous_count,
+            mode() WITHIN GROUP (ORDER BY category_code) AS category
+        FROM regional_use
+        GROUP BY platform_id, region, language, keyword
+    ),
+    scored AS (
+        -- Recent use weighted by growth; DECIMAL(5,2) caps the score
+        SELECT
+            s.*,
+            LEAST(999.99, ROUND(s.recent_count * (s.recent_count + 1.0) / (s.previous_count + 1.0), 2)) AS score
+        FROM stats s
+        WHERE s.recent_count >= p_min_uses
+          AND s.recent_count > s.previous_count
+    ),
+    ranked AS (
+        SELECT
+            sc.*,
+            ROW_NUMBER() OVER (
+                PARTITION BY sc.platform_id, sc.region, sc.language
+                ORDER BY sc.score DESC, sc.recent_count DESC, sc.keyword
+            ) AS rank_position
+        FROM scored sc
+    )
+    INSERT INTO public.trending_keyword (
+        platform_id, keyword, category, trending_score, search_volume,
+        source, region, language, valid_from, valid_until
+    )
+    SELECT
+        r.platform_id,
+        r.keyword,
+        r.category,
+        r.score,
+        r.recent_count,
+        'content_growth',
+        r.region,
+        r.language,
+        v_now,
+        v_now + p_valid_for
+    FROM ranked r
+    WHERE r.rank_position <= p_limit;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    RETURN QUERY SELECT v_inserted, v_deleted;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_trending_keywords(INTERVAL, INTERVAL, INT, INT) IS 'Rebuild content_growth trending keywords per platform/region/language and delete expired rows';
+
+-- =================================================================================
+-- SECTION 3: SCHEDULING
+-- =================================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'refresh-trending-keywords',
+            '30 */6 * * *', -- Every 6 hours, rows stay valid for 12
+            'SELECT public.refresh_trending_keywords()'
+        );
+    ELSE
+        RAISE NOTICE '⚠️  pg_cron not installed - schedule refresh_trending_keywords() manually';
+    END IF;
+END $$;
+
+-- =================================================================================
+-- SECTION 4: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.refresh_trending_keywords FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_trending_keywords TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Trending Keyword Ingestion - COMPLETE';
+    RAISE NOTICE '   Functions: refresh_trending_keywords';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. SELECT * FROM refresh_trending_keywords(INTERVAL ''30 days'', INTERVAL ''12 hours'', 1)';
+    RAISE NOTICE '   2. GET /functions/v1/get-trending-keywords?platform=youtube&region=GLOBAL';
+END $$;
@@ -0,0 +1,229 @@
+-- =================================================================================
+-- SEARCH ENGINE SUBMISSION SERVICE
+-- =================================================================================
+-- Purpose: Submit new and updated public content URLs to the search engines a
+--          user connected (seo_connection) through IndexNow and the Google
+--          Indexing API, with per-URL retries
+-- Dependencies: 20251109134800_phase5.0.0_seo_integration.sql,
+--               20251109135000_phase7.0.0_async_infrastructure.sql,
+--               20251112090000_job_worker.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. seo_submission.status / submission_method constraints
+--   2. content_item.page_modified_at - when the public page last changed; sync
+--      metric updates bump updated_at but not this
+--   3. queue_seo_submissions() - one pending row per (content URL, connection)
+--      for public content whose page changed since its last successful submission
+--   4. enqueue_seo_submission_jobs() + pg_cron schedule - seo_submission jobs
+--      for users with retries that are due, or pending rows whose job failed
+--      for good (skipped without pg_cron)
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: SCHEMA
+-- =================================================================================
+
+-- pending   - queued, not sent yet
+-- submitted - accepted by the search engine
+-- failed    - rejected; retried at next_retry_at, final when next_retry_at IS NULL
+-- indexed   - confirmed indexed (indexed_at)
+ALTER TABLE public.seo_submission
+    DROP CONSTRAINT IF EXISTS seo_submission_status_check;
+ALTER TABLE public.seo_submission
+    ADD CONSTRAINT seo_submission_status_check
+    CHECK (status IN ('pending', 'submitted', 'failed', 'indexed'));
+
+ALTER TABLE public.seo_submission
+    DROP CONSTRAINT IF EXISTS seo_submission_method_check;
+ALTER TABLE public.seo_submission
+    ADD CONSTRAINT seo_submission_method_check
+    CHECK (submission_method IS NULL OR submission_method IN ('indexnow', 'google_indexing_api'));
+
+COMMENT ON COLUMN public.seo_submission.submission_type IS 'URL_UPDATED or URL_DELETED (Google Indexing API notification types)';
+COMMENT ON COLUMN public.seo_submission.next_retry_at IS 'When a failed submission is retried; NULL once retries are exhausted';
+
+CREATE INDEX IF NOT EXISTS idx_seo_submission_connection_content
+    ON public.seo_submission(connection_id, content_item_id, submitted_at DESC);
+
+ALTER TABLE public.content_item
+    ADD COLUMN IF NOT EXISTS page_modified_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN public.content_item.page_modified_at IS 'Last change visible on /content/:id; metric-only updates leave it';
+
+-- updated_at is the best estimate for existing rows. The updated_at trigger is
+-- paused so the backfill does not make every row look changed.
+ALTER TABLE public.content_item DISABLE TRIGGER trg_content_item_updated_at;
+UPDATE public.content_item SET page_modified_at = updated_at;
+ALTER TABLE public.content_item ENABLE TRIGGER trg_content_item_updated_at;
+
+-- Fields rendered on the content page (title, text, thumbnail, SEO overrides)
+-- and whether it is public at all
+CREATE OR REPLACE FUNCTION public.touch_content_page_modified_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.visibility IS DISTINCT FROM OLD.visibility
+       OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+       OR NEW.title IS DISTINCT FROM OLD.title
+       OR NEW.description IS DISTINCT FROM OLD.description
+       OR NEW.thumbnail_url IS DISTINCT FROM OLD.thumbnail_url
+       OR NEW.seo_title IS DISTINCT FROM OLD.seo_title
+       OR NEW.seo_description IS DISTINCT FROM OLD.seo_description THEN
+        NEW.page_modified_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_content_item_page_modified_at ON public.content_item;
+CREATE TRIGGER trg_content_item_page_modified_at
+    BEFORE UPDATE OF visibility, deleted_at, title, description, thumbnail_url, seo_title, seo_description
+    ON public.content_item
+    FOR EACH ROW EXECUTE FUNCTION public.touch_content_page_modified_at();
+
+-- =================================================================================
+-- SECTION 2: QUEUE FUNCTION
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.queue_seo_submissions(
+    p_user_id UUID,
+    p_base_url TEXT,
+    p_content_ids UUID[] DEFAULT NULL,
+    p_engine_slugs TEXT[] DEFAULT NULL,
+    p_max INT DEFAULT 100
+)
+RETURNS INT
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    INSERT INTO public.seo_submission (
+        content_item_id, connection_id, search_engine_id,
+        submitted_url, submission_type, submission_method, status
+    )
+    SELECT
+        ci.id,
+        sc.id,
+        se.id,
+        rtrim(p_base_url, '/') || '/content/' || ci.id,
+        'URL_UPDATED',
+        CASE WHEN se.supports_indexnow THEN 'indexnow' ELSE 'google_indexing_api' END,
+        'pending'
+    FROM public.content_item ci
+    JOIN public.social_account sa ON sa.id = ci.social_account_id
+    CROSS JOIN public.seo_connection sc
+    JOIN public.search_engine se ON se.id = sc.search_engine_id
+    WHERE sa.user_id = p_user_id
+      AND sa.deleted_at IS NULL
+      AND ci.deleted_at IS NULL
+      AND ci.visibility = 'public'
+      AND (p_content_ids IS NULL OR ci.id = ANY(p_content_ids))
+      AND sc.user_id = p_user_id
+      AND sc.is_active = true
+      AND se.is_active = true
+      AND (se.supports_indexnow OR se.slug = 'google')
+      AND (p_engine_slugs IS NULL OR se.slug = ANY(p_engine_slugs))
+      -- Nothing already waiting for this URL on this connection
+      AND NOT EXISTS (
+          SELECT 1 FROM public.seo_submission s
+          WHERE s.connection_id = sc.id
+            AND s.content_item_id = ci.id
+            AND (s.status = 'pending' OR (s.status = 'failed' AND s.next_retry_at IS NOT NULL))
+      )
+      -- Without explicit ids: only content whose page changed since its last
+      -- successful submission (metric syncs do not count)
+      AND (
+          p_content_ids IS NOT NULL
+          OR NOT EXISTS (
+              SELECT 1 FROM public.seo_submission s
+              WHERE s.connection_id = sc.id
+                AND s.content_item_id = ci.id
+                AND s.status IN ('submitted', 'indexed')
+                AND s.submitted_at >= ci.page_modified_at
+          )
+      )
+    ORDER BY ci.page_modified_at DESC
+    LIMIT p_max;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.queue_seo_submissions(UUID, TEXT, UUID[], TEXT[], INT) IS 'Queue pending seo_submission rows for the user''s public content on every active IndexNow/Google connection';
+
+-- =================================================================================
+-- SECTION 3: RETRY SCHEDULING
+-- =================================================================================
+
+CREATE OR REPLACE FUNCTION public.enqueue_seo_submission_jobs()
+RETURNS INT
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INT;
+BEGIN
+    INSERT INTO public.job_queue (user_id, job_type, params, job_priority, status, scheduled_for)
+    SELECT DISTINCT sc.user_id, 'seo_submission', '{}'::jsonb, 6, 'pending', NOW()
+    FROM public.seo_submission s
+    JOIN public.seo_connection sc ON sc.id = s.connection_id
+    WHERE ((s.status = 'failed' AND s.next_retry_at <= NOW())
+           -- Charged when queued: sent (or refunded) even if their job failed for good
+           OR (s.status = 'pending' AND s.created_at < NOW() - INTERVAL '15 minutes'))
+      AND NOT EXISTS (
+          SELECT 1 FROM public.job_queue jq
+          WHERE jq.user_id = sc.user_id
+            AND jq.job_type = 'seo_submission'
+            AND jq.status IN ('pending', 'processing')
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.enqueue_seo_submission_jobs() IS 'Queue seo_submission jobs for users with failed submissions whose next_retry_at has passed or stale pending submissions';
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'enqueue-seo-submission-retries',
+            '*/5 * * * *', -- Every 5 minutes
+            'SELECT public.enqueue_seo_submission_jobs()'
+        );
+    ELSE
+        RAISE NOTICE '⚠️  pg_cron not installed - schedule enqueue_seo_submission_jobs() manually';
+    END IF;
+END $$;
+
+-- =================================================================================
+-- SECTION 4: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.queue_seo_submissions FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_seo_submissions TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_seo_submission_jobs FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_seo_submission_jobs TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Search Engine Submission Service - COMPLETE';
+    RAISE NOTICE '   Columns: content_item.page_modified_at';
+    RAISE NOTICE '   Functions: queue_seo_submissions, enqueue_seo_submission_jobs';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. Point INDEXNOW_ENDPOINT / GOOGLE_INDEXING_ENDPOINT / GOOGLE_TOKEN_URL at a local stub';
+    RAISE NOTICE '   2. POST /functions/v1/submit-to-search-engines {"content_ids": ["..."]}';
+    RAISE NOTICE '   3. SELECT status, response_status, retry_count, next_retry_at FROM seo_submission';
+END $$;
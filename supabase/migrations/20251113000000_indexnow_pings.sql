@@ -0,0 +1,237 @@
+-- =================================================================================
+-- INDEXNOW PINGS
+-- =================================================================================
+-- Purpose: Notify IndexNow engines about changed public pages with the site's
+--          own key - content pages when they are published, edited or hidden,
+--          creator pages when their profile or content changes
+-- Dependencies: 20251109134600_phase3.0.0_content_sync.sql,
+--               20251109211500_phase1.0.1_fix_duplicate_index.sql,
+--               20251112230000_seo_submission_service.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. indexnow_ping table - one row per page path, pending while next_ping_at is set
+--   2. queue_indexnow_ping() - queue a path, at most one ping per path per window
+--   3. content_item / users triggers queueing /content/:id and /creator/:slug
+--   4. claim_indexnow_pings() - hand due paths to the job-worker
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: SCHEMA
+-- =================================================================================
+
+CREATE TABLE IF NOT EXISTS public.indexnow_ping (
+    -- Path below APP_BASE_URL, e.g. /content/<id> or /creator/<slug>
+    path TEXT PRIMARY KEY,
+    reason TEXT,
+
+    -- Pending while set; cleared when the ping is claimed
+    next_ping_at TIMESTAMPTZ,
+    last_queued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    last_pinged_at TIMESTAMPTZ,
+    ping_count INT NOT NULL DEFAULT 0,
+    last_status INT,
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.indexnow_ping IS 'Public page paths waiting for (or last sent in) a site-wide IndexNow ping';
+COMMENT ON COLUMN public.indexnow_ping.next_ping_at IS 'When the path is sent next; NULL when nothing is pending';
+
+CREATE INDEX IF NOT EXISTS idx_indexnow_ping_due
+    ON public.indexnow_ping(next_ping_at)
+    WHERE next_ping_at IS NOT NULL;
+
+-- Service role only
+ALTER TABLE public.indexnow_ping ENABLE ROW LEVEL SECURITY;
+
+-- =================================================================================
+-- SECTION 2: QUEUE FUNCTIONS
+-- =================================================================================
+
+-- A path changing again and again is pinged at most once per p_window;
+-- changes made while a ping is pending ride along with it
+CREATE OR REPLACE FUNCTION public.queue_indexnow_ping(
+    p_path TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_window INTERVAL DEFAULT '15 minutes'
+)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.indexnow_ping (path, reason, next_ping_at)
+    VALUES (p_path, p_reason, NOW())
+    ON CONFLICT (path) DO UPDATE SET
+        reason = EXCLUDED.reason,
+        last_queued_at = NOW(),
+        next_ping_at = COALESCE(
+            public.indexnow_ping.next_ping_at,
+            GREATEST(NOW(), public.indexnow_ping.last_pinged_at + p_window)
+        );
+END;
+$$;
+
+COMMENT ON FUNCTION public.queue_indexnow_ping(TEXT, TEXT, INTERVAL) IS 'Queue an IndexNow ping for a public page path, deduplicated per time window';
+
+-- Due paths, oldest first; claiming clears next_ping_at so concurrent workers skip them
+CREATE OR REPLACE FUNCTION public.claim_indexnow_pings(p_limit INT DEFAULT 10000)
+RETURNS TABLE(path TEXT, reason TEXT)
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.indexnow_ping p
+    SET next_ping_at = NULL,
+        last_pinged_at = NOW(),
+        ping_count = p.ping_count + 1
+    WHERE p.path IN (
+        SELECT d.path FROM public.indexnow_ping d
+        WHERE d.next_ping_at <= NOW()
+        ORDER BY d.next_ping_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING p.path, p.reason;
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_indexnow_pings(INT) IS 'Claim due IndexNow ping paths for sending';
+
+-- =================================================================================
+-- SECTION 3: TRIGGERS
+-- =================================================================================
+
+-- Pages change when content is published, edited, hidden or deleted. Metric-only
+-- sync updates leave the page as it was and are ignored.
+CREATE OR REPLACE FUNCTION public.queue_content_indexnow_pings()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_was_public BOOLEAN := false;
+    v_is_public BOOLEAN;
+    v_reason TEXT;
+    v_slug TEXT;
+BEGIN
+    v_is_public := NEW.visibility = 'public' AND NEW.deleted_at IS NULL;
+
+    IF TG_OP = 'UPDATE' THEN
+        v_was_public := OLD.visibility = 'public' AND OLD.deleted_at IS NULL;
+    END IF;
+
+    IF v_is_public AND NOT v_was_public THEN
+        v_reason := 'published';
+    ELSIF v_was_public AND NOT v_is_public THEN
+        v_reason := 'unpublished';
+    ELSIF v_is_public AND (
+        NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.description IS DISTINCT FROM OLD.description
+        OR NEW.thumbnail_url IS DISTINCT FROM OLD.thumbnail_url
+        OR NEW.seo_title IS DISTINCT FROM OLD.seo_title
+        OR NEW.seo_description IS DISTINCT FROM OLD.seo_description
+    ) THEN
+        v_reason := 'updated';
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    PERFORM public.queue_indexnow_ping('/content/' || NEW.id, v_reason);
+
+    -- The creator page lists the content, so it changes too
+    SELECT u.profile_slug INTO v_slug
+    FROM public.social_account sa
+    JOIN public.users u ON u.id = sa.user_id
+    WHERE sa.id = NEW.social_account_id
+      AND sa.deleted_at IS NULL
+      AND u.is_public = true
+      AND u.profile_slug IS NOT NULL;
+
+    IF v_slug IS NOT NULL THEN
+        PERFORM public.queue_indexnow_ping('/creator/' || v_slug, 'content_' || v_reason);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_content_item_indexnow_ping ON public.content_item;
+CREATE TRIGGER trg_content_item_indexnow_ping
+    AFTER INSERT OR UPDATE OF visibility, deleted_at, title, description, thumbnail_url, seo_title, seo_description
+    ON public.content_item
+    FOR EACH ROW EXECUTE FUNCTION public.queue_content_indexnow_pings();
+
+-- A renamed slug pings the old URL too, so engines drop it
+CREATE OR REPLACE FUNCTION public.queue_creator_indexnow_pings()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF OLD.profile_slug IS NOT NULL AND OLD.is_public
+       AND (NEW.profile_slug IS DISTINCT FROM OLD.profile_slug OR NOT NEW.is_public) THEN
+        PERFORM public.queue_indexnow_ping('/creator/' || OLD.profile_slug, 'unpublished');
+    END IF;
+
+    IF NEW.profile_slug IS NOT NULL AND NEW.is_public AND (
+        NEW.profile_slug IS DISTINCT FROM OLD.profile_slug
+        OR NEW.is_public IS DISTINCT FROM OLD.is_public
+        OR NEW.display_name IS DISTINCT FROM OLD.display_name
+        OR NEW.bio IS DISTINCT FROM OLD.bio
+        OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url
+        OR NEW.seo_title IS DISTINCT FROM OLD.seo_title
+        OR NEW.seo_description IS DISTINCT FROM OLD.seo_description
+    ) THEN
+        PERFORM public.queue_indexnow_ping(
+            '/creator/' || NEW.profile_slug,
+            CASE WHEN OLD.is_public AND OLD.profile_slug = NEW.profile_slug THEN 'updated' ELSE 'published' END
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_users_indexnow_ping ON public.users;
+CREATE TRIGGER trg_users_indexnow_ping
+    AFTER UPDATE OF profile_slug, is_public, display_name, bio, avatar_url, seo_title, seo_description
+    ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.queue_creator_indexnow_pings();
+
+-- =================================================================================
+-- SECTION 4: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.queue_indexnow_ping FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_indexnow_ping TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.claim_indexnow_pings FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_indexnow_pings TO service_role;
+
+GRANT ALL ON public.indexnow_ping TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ IndexNow Pings - COMPLETE';
+    RAISE NOTICE '   Table: indexnow_ping';
+    RAISE NOTICE '   Functions: queue_indexnow_ping, claim_indexnow_pings';
+    RAISE NOTICE '   Triggers: trg_content_item_indexnow_ping, trg_users_indexnow_ping';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. UPDATE content_item SET visibility = ''private'' WHERE id = ''...''';
+    RAISE NOTICE '   2. SELECT path, reason, next_ping_at FROM indexnow_ping';
+    RAISE NOTICE '   3. Set INDEXNOW_KEY, POST /functions/v1/job-worker, check last_pinged_at / last_status';
+END $$;
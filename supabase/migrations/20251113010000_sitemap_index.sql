@@ -0,0 +1,263 @@
+-- =================================================================================
+-- SITEMAP INDEX
+-- =================================================================================
+-- Purpose: Serve the sitemap as an index of keyset-paginated child sitemaps per
+--          entity type (creators, content, categories) with accurate lastmod
+-- Dependencies: 20251109134600_phase3.0.0_content_sync.sql,
+--               20251109134900_phase6.0.0_discovery_platform.sql,
+--               20251112230000_seo_submission_service.sql,
+--               20251113000000_indexnow_pings.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. users.page_modified_at - when the public creator page last changed;
+--      content_item.page_modified_at (seo_submission_service) now also follows
+--      the category the content page links to
+--   2. sitemap_*_entry views - public URLs per entity type with their lastmod
+--   3. get_sitemap_urls() - one keyset page of a child sitemap
+--   4. get_sitemap_pages() - child sitemap boundaries for the sitemap index
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: PAGE MODIFICATION TIMES
+-- =================================================================================
+
+-- Added by 20251112230000_seo_submission_service.sql; kept for databases that skipped it
+ALTER TABLE public.content_item
+    ADD COLUMN IF NOT EXISTS page_modified_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS page_modified_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN public.users.page_modified_at IS 'Last profile change visible on /creator/:slug (sitemap lastmod)';
+
+-- updated_at is the best estimate for existing rows. The updated_at trigger is
+-- paused so the backfill does not make every row look changed.
+ALTER TABLE public.users DISABLE TRIGGER trg_users_updated_at;
+UPDATE public.users SET page_modified_at = updated_at;
+ALTER TABLE public.users ENABLE TRIGGER trg_users_updated_at;
+
+-- Same fields as the IndexNow ping triggers, plus the category the page links to
+-- (replaces the seo_submission_service version)
+CREATE OR REPLACE FUNCTION public.touch_content_page_modified_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.visibility IS DISTINCT FROM OLD.visibility
+       OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+       OR NEW.title IS DISTINCT FROM OLD.title
+       OR NEW.description IS DISTINCT FROM OLD.description
+       OR NEW.thumbnail_url IS DISTINCT FROM OLD.thumbnail_url
+       OR NEW.seo_title IS DISTINCT FROM OLD.seo_title
+       OR NEW.seo_description IS DISTINCT FROM OLD.seo_description
+       OR NEW.category_code IS DISTINCT FROM OLD.category_code THEN
+        NEW.page_modified_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_content_item_page_modified_at ON public.content_item;
+CREATE TRIGGER trg_content_item_page_modified_at
+    BEFORE UPDATE OF visibility, deleted_at, title, description, thumbnail_url, seo_title, seo_description, category_code
+    ON public.content_item
+    FOR EACH ROW EXECUTE FUNCTION public.touch_content_page_modified_at();
+
+CREATE OR REPLACE FUNCTION public.touch_creator_page_modified_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.profile_slug IS DISTINCT FROM OLD.profile_slug
+       OR NEW.is_public IS DISTINCT FROM OLD.is_public
+       OR NEW.display_name IS DISTINCT FROM OLD.display_name
+       OR NEW.bio IS DISTINCT FROM OLD.bio
+       OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url
+       OR NEW.seo_title IS DISTINCT FROM OLD.seo_title
+       OR NEW.seo_description IS DISTINCT FROM OLD.seo_description THEN
+        NEW.page_modified_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_users_page_modified_at ON public.users;
+CREATE TRIGGER trg_users_page_modified_at
+    BEFORE UPDATE OF profile_slug, is_public, display_name, bio, avatar_url, seo_title, seo_description
+    ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.touch_creator_page_modified_at();
+
+CREATE INDEX IF NOT EXISTS idx_content_item_category_modified
+    ON public.content_item(category_code, page_modified_at DESC)
+    WHERE deleted_at IS NULL AND visibility = 'public' AND category_code IS NOT NULL;
+
+-- =================================================================================
+-- SECTION 2: SITEMAP ENTRIES
+-- =================================================================================
+
+-- Public content pages
+CREATE OR REPLACE VIEW public.sitemap_content_entry AS
+SELECT ci.id, ci.page_modified_at AS lastmod
+FROM public.content_item ci
+JOIN public.social_account sa ON sa.id = ci.social_account_id
+WHERE ci.deleted_at IS NULL
+  AND ci.visibility = 'public'
+  AND sa.deleted_at IS NULL;
+
+-- Public creator pages; they list the creator's content, so it counts towards lastmod
+CREATE OR REPLACE VIEW public.sitemap_creator_entry AS
+SELECT
+    u.profile_slug AS slug,
+    GREATEST(
+        u.page_modified_at,
+        (
+            SELECT MAX(ci.page_modified_at)
+            FROM public.content_item ci
+            JOIN public.social_account sa ON sa.id = ci.social_account_id
+            WHERE sa.user_id = u.id
+              AND sa.deleted_at IS NULL
+              AND ci.deleted_at IS NULL
+              AND ci.visibility = 'public'
+        )
+    ) AS lastmod
+FROM public.users u
+WHERE u.is_public = true
+  AND u.profile_slug IS NOT NULL;
+
+-- Active categories with public content
+CREATE OR REPLACE VIEW public.sitemap_category_entry AS
+SELECT cc.code, c.lastmod
+FROM public.content_category cc
+JOIN LATERAL (
+    SELECT MAX(ci.page_modified_at) AS lastmod
+    FROM public.content_item ci
+    WHERE ci.category_code = cc.code
+      AND ci.deleted_at IS NULL
+      AND ci.visibility = 'public'
+) c ON c.lastmod IS NOT NULL
+WHERE cc.is_active = true;
+
+REVOKE ALL ON public.sitemap_content_entry FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON public.sitemap_creator_entry FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON public.sitemap_category_entry FROM PUBLIC, anon, authenticated;
+
+-- =================================================================================
+-- SECTION 3: SITEMAP FUNCTIONS
+-- =================================================================================
+
+-- Keys ascend in each type's natural order (uuid for content, text for slugs and
+-- codes); get_sitemap_pages() numbers entries in the same order
+CREATE OR REPLACE FUNCTION public.get_sitemap_urls(
+    p_type TEXT,
+    p_after TEXT DEFAULT NULL,
+    p_limit INT DEFAULT 1000
+)
+RETURNS TABLE(key TEXT, lastmod TIMESTAMPTZ)
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF p_type = 'content' THEN
+        RETURN QUERY
+        SELECT e.id::TEXT, e.lastmod
+        FROM public.sitemap_content_entry e
+        WHERE e.id > COALESCE(p_after::UUID, '00000000-0000-0000-0000-000000000000'::UUID)
+        ORDER BY e.id
+        LIMIT p_limit;
+    ELSIF p_type = 'creators' THEN
+        RETURN QUERY
+        SELECT e.slug, e.lastmod
+        FROM public.sitemap_creator_entry e
+        WHERE e.slug > COALESCE(p_after, '')
+        ORDER BY e.slug
+        LIMIT p_limit;
+    ELSIF p_type = 'categories' THEN
+        RETURN QUERY
+        SELECT e.code, e.lastmod
+        FROM public.sitemap_category_entry e
+        WHERE e.code > COALESCE(p_after, '')
+        ORDER BY e.code
+        LIMIT p_limit;
+    ELSE
+        RAISE EXCEPTION 'Unknown sitemap type: %', p_type;
+    END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_sitemap_urls(TEXT, TEXT, INT) IS 'Sitemap entries of one type after a keyset cursor';
+
+-- One row per child sitemap: start_after is the cursor for get_sitemap_urls()
+-- (NULL for the first page), lastmod the newest entry on the page
+CREATE OR REPLACE FUNCTION public.get_sitemap_pages(
+    p_type TEXT,
+    p_page_size INT DEFAULT 5000
+)
+RETURNS TABLE(page INT, start_after TEXT, url_count INT, lastmod TIMESTAMPTZ)
+SECURITY DEFINER
+SET search_path = public, pg_temp
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF p_type NOT IN ('content', 'creators', 'categories') THEN
+        RAISE EXCEPTION 'Unknown sitemap type: %', p_type;
+    END IF;
+
+    RETURN QUERY
+    WITH numbered AS (
+        SELECT e.id::TEXT AS entry_key, e.lastmod AS entry_lastmod, row_number() OVER (ORDER BY e.id) AS rn
+        FROM public.sitemap_content_entry e
+        WHERE p_type = 'content'
+        UNION ALL
+        SELECT e.slug, e.lastmod, row_number() OVER (ORDER BY e.slug)
+        FROM public.sitemap_creator_entry e
+        WHERE p_type = 'creators'
+        UNION ALL
+        SELECT e.code, e.lastmod, row_number() OVER (ORDER BY e.code)
+        FROM public.sitemap_category_entry e
+        WHERE p_type = 'categories'
+    ),
+    paged AS (
+        SELECT
+            ((n.rn - 1) / p_page_size)::INT AS page_index,
+            COUNT(*)::INT AS entry_count,
+            MAX(n.entry_lastmod) AS page_lastmod,
+            (array_agg(n.entry_key ORDER BY n.rn DESC))[1] AS last_key
+        FROM numbered n
+        GROUP BY 1
+    )
+    SELECT
+        p.page_index + 1,
+        lag(p.last_key) OVER (ORDER BY p.page_index),
+        p.entry_count,
+        p.page_lastmod
+    FROM paged p
+    ORDER BY p.page_index;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_sitemap_pages(TEXT, INT) IS 'Child sitemap pages of one type with their keyset cursors, for the sitemap index';
+
+-- =================================================================================
+-- SECTION 4: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.get_sitemap_urls FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sitemap_urls TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.get_sitemap_pages FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sitemap_pages TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Sitemap Index - COMPLETE';
+    RAISE NOTICE '   Columns: content_item.page_modified_at, users.page_modified_at';
+    RAISE NOTICE '   Views: sitemap_content_entry, sitemap_creator_entry, sitemap_category_entry';
+    RAISE NOTICE '   Functions: get_sitemap_urls, get_sitemap_pages';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. SELECT * FROM get_sitemap_pages(''content'', 2)';
+    RAISE NOTICE '   2. SELECT * FROM get_sitemap_urls(''content'', NULL, 2)';
+    RAISE NOTICE '   3. GET /functions/v1/sitemap, then each <loc> it lists';
+END $$;
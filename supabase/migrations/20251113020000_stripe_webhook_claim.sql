@@ -0,0 +1,120 @@
+-- =================================================================================
+-- STRIPE WEBHOOK CLAIM
+-- =================================================================================
+-- Purpose: Let exactly one stripe-webhook invocation process each Stripe event,
+--          even when Stripe delivers it twice at the same time
+-- Dependencies: 20251109135000_phase7.0.0_async_infrastructure.sql
+-- Date: November 12, 2025
+--
+-- Changes:
+--   1. stripe_webhook_events.claimed_at - when an invocation took the event
+--   2. claim_stripe_webhook_event() - log and claim the event in one statement
+--   3. mark_webhook_processed() - also releases the claim, so a failed event
+--      can be claimed again by Stripe's redelivery
+-- =================================================================================
+
+-- =================================================================================
+-- SECTION 1: CLAIM COLUMN
+-- =================================================================================
+
+ALTER TABLE public.stripe_webhook_events
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.stripe_webhook_events.claimed_at IS 'Set while an invocation processes the event; cleared by mark_webhook_processed()';
+
+-- =================================================================================
+-- SECTION 2: CLAIM FUNCTION
+-- =================================================================================
+
+-- Returns 'claimed' when this call inserted the event or took over an
+-- unprocessed one, 'processed' for redeliveries of handled events and
+-- 'in_progress' while another invocation holds the claim. A claim older than
+-- p_lease (crashed invocation) can be taken over.
+CREATE OR REPLACE FUNCTION public.claim_stripe_webhook_event(
+    p_stripe_event_id TEXT,
+    p_event_type TEXT,
+    p_event_data JSONB,
+    p_lease INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_claimed_id UUID;
+    v_processed BOOLEAN;
+BEGIN
+    -- The conflicting row is locked, so concurrent deliveries are serialized
+    -- and only one of them sees the WHERE clause pass
+    INSERT INTO public.stripe_webhook_events AS e
+        (stripe_event_id, event_type, event_data, processed, retry_count, claimed_at)
+    VALUES (p_stripe_event_id, p_event_type, p_event_data, false, 0, NOW())
+    ON CONFLICT (stripe_event_id) DO UPDATE
+        SET claimed_at = NOW(),
+            updated_at = NOW()
+        WHERE e.processed = false
+          AND (e.claimed_at IS NULL OR e.claimed_at < NOW() - p_lease)
+    RETURNING e.id INTO v_claimed_id;
+
+    IF v_claimed_id IS NOT NULL THEN
+        RETURN 'claimed';
+    END IF;
+
+    SELECT e.processed INTO v_processed
+    FROM public.stripe_webhook_events e
+    WHERE e.stripe_event_id = p_stripe_event_id;
+
+    RETURN CASE WHEN v_processed THEN 'processed' ELSE 'in_progress' END;
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_stripe_webhook_event(TEXT, TEXT, JSONB, INTERVAL) IS 'Log a Stripe event and claim it for processing: claimed, processed or in_progress';
+
+-- =================================================================================
+-- SECTION 3: RELEASE ON COMPLETION
+-- =================================================================================
+
+-- Keeps the search_path set by 20251110040000_fix_function_search_path.sql
+CREATE OR REPLACE FUNCTION public.mark_webhook_processed(
+    p_stripe_event_id TEXT,
+    p_error_message TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    UPDATE public.stripe_webhook_events
+    SET processed = (p_error_message IS NULL),
+        processed_at = CASE WHEN p_error_message IS NULL THEN NOW() ELSE NULL END,
+        error_message = p_error_message,
+        claimed_at = NULL,
+        retry_count = retry_count + 1, updated_at = NOW()
+    WHERE stripe_event_id = p_stripe_event_id;
+END;
+$$;
+
+-- =================================================================================
+-- SECTION 4: GRANTS & PERMISSIONS
+-- =================================================================================
+
+REVOKE EXECUTE ON FUNCTION public.claim_stripe_webhook_event FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_stripe_webhook_event TO service_role;
+
+-- =================================================================================
+-- VERIFICATION
+-- =================================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Stripe Webhook Claim - COMPLETE';
+    RAISE NOTICE '   Columns: stripe_webhook_events.claimed_at';
+    RAISE NOTICE '   Functions: claim_stripe_webhook_event, mark_webhook_processed (releases the claim)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 Test this migration:';
+    RAISE NOTICE '   1. SELECT claim_stripe_webhook_event(''evt_test_1'', ''test'', ''{}''::jsonb) -- claimed';
+    RAISE NOTICE '   2. Run it again -- in_progress';
+    RAISE NOTICE '   3. SELECT mark_webhook_processed(''evt_test_1''), then claim again -- processed';
+END $$;